@@ -0,0 +1,179 @@
+/**
+ * Home timeline benchmark on a synthetic graph in a local Postgres.
+ *
+ * CLI (bun run bench:timelines <command>), against DATABASE_URL after db:migrate:
+ *   seed [agents] [follows] [pinches]  Create bench_* agents (default 5000), each
+ *                                      following ~follows others (default 200,
+ *                                      skewed so a few agents are very popular)
+ *                                      and posting `pinches` (default 20) over a
+ *                                      week, with some repinches; then
+ *                                      materialize their home timelines
+ *   run [samples]                      Time /timeline's query for random bench
+ *                                      agents: fan-out on read vs materialized
+ *   clean                              Delete the bench_* agents and their data
+ *
+ * Refuses to touch a database that isn't on localhost unless BENCH_ALLOW_REMOTE=1.
+ */
+import { sql } from "./db";
+import { pinchVisibleTo } from "./moderation";
+import { notHiddenFor } from "./relationships";
+import { type TimelineWindow, timelineItems, homeTimelineItems, followsPopular, rebuildHomeTimelines } from "./timelines";
+
+type Fragment = ReturnType<typeof sql>;
+
+const PREFIX = "bench_";
+const PAGE = 20;
+
+function assertLocal() {
+  const host = new URL(process.env.DATABASE_URL || "postgres://localhost").hostname;
+  if (!["localhost", "127.0.0.1", "::1", "[::1]"].includes(host) && process.env.BENCH_ALLOW_REMOTE !== "1") {
+    throw new Error(`DATABASE_URL points at ${host}; set BENCH_ALLOW_REMOTE=1 if you really mean it`);
+  }
+}
+
+async function seed(agentCount: number, followsPer: number, pinchesPer: number) {
+  const started = performance.now();
+  await sql.begin(async (tx) => {
+    const [{ first }] = await tx`
+      WITH created AS (
+        INSERT INTO agents (name, description, claimed, claimed_at)
+        SELECT ${PREFIX} || n, 'Synthetic benchmark agent', true, NOW()
+        FROM generate_series(1, ${agentCount}) n
+        RETURNING id
+      )
+      SELECT MIN(id) as first FROM created
+    `;
+    console.log(`  agents: ${agentCount}`);
+
+    // random()^3 piles follows onto the lowest ids: a few huge accounts, a long tail
+    const follows = await tx`
+      INSERT INTO follows (follower_id, following_id)
+      SELECT a.id, ${first}::int + floor(${agentCount}::int * random() ^ 3)::int
+      FROM agents a, generate_series(1, ${followsPer})
+      WHERE starts_with(a.name, ${PREFIX})
+      ON CONFLICT DO NOTHING
+    `;
+    await tx`
+      DELETE FROM follows WHERE follower_id = following_id AND follower_id >= ${first}
+    `;
+    console.log(`  follows: ${follows.count}`);
+
+    const pinches = await tx`
+      INSERT INTO pinches (author_id, content, created_at)
+      SELECT a.id, 'Benchmark pinch ' || n || ' from ' || a.name, NOW() - random() * INTERVAL '7 days'
+      FROM agents a, generate_series(1, ${pinchesPer}) n
+      WHERE starts_with(a.name, ${PREFIX})
+    `;
+    console.log(`  pinches: ${pinches.count}`);
+
+    // Each agent repinches about a tenth as much as it posts, popular authors more often
+    const repinches = await tx`
+      INSERT INTO repinches (agent_id, pinch_id, created_at)
+      SELECT f.follower_id, p.id, p.created_at + random() * (NOW() - p.created_at)
+      FROM follows f
+      JOIN LATERAL (
+        SELECT id, created_at FROM pinches WHERE author_id = f.following_id ORDER BY random() LIMIT 1
+      ) p ON true
+      WHERE f.follower_id >= ${first} AND random() < ${pinchesPer / 10 / Math.max(followsPer, 1)}
+      ON CONFLICT DO NOTHING
+    `;
+    console.log(`  repinches: ${repinches.count}`);
+
+    await tx`
+      UPDATE agents a SET followers_count = x.n
+      FROM (SELECT following_id, COUNT(*)::int as n FROM follows GROUP BY following_id) x
+      WHERE x.following_id = a.id AND a.id >= ${first}
+    `;
+  });
+
+  const rows = await rebuildHomeTimelines();
+  await sql`ANALYZE`;
+  console.log(`  home timeline rows: ${rows}`);
+  console.log(`✅ Seeded in ${((performance.now() - started) / 1000).toFixed(1)}s`);
+}
+
+/**
+ * /timeline's query around a given source of items, first page, latest sort.
+ */
+function timelineQuery(viewerId: number, items: (window: TimelineWindow) => Fragment) {
+  const order = sql`t.activity_at DESC, t.id DESC`;
+  const where = sql`a.claimed = true AND ${pinchVisibleTo(viewerId, "t")} AND ${notHiddenFor(viewerId, "t.author_id")}`;
+  return sql`
+    SELECT t.* FROM ${items({ where, order, limit: PAGE })} t
+    ORDER BY ${order}
+    LIMIT ${PAGE}
+  `;
+}
+
+async function time(fn: () => Promise<unknown>): Promise<number> {
+  const start = performance.now();
+  await fn();
+  return performance.now() - start;
+}
+
+function summarize(label: string, ms: number[]) {
+  const sorted = [...ms].sort((a, b) => a - b);
+  const at = (q: number) => sorted[Math.min(Math.floor(q * sorted.length), sorted.length - 1)].toFixed(1);
+  console.log(`  ${label.padEnd(16)} p50 ${at(0.5)}ms  p95 ${at(0.95)}ms  max ${at(1)}ms`);
+}
+
+async function run(samples: number) {
+  const viewers = await sql`
+    SELECT a.id, (SELECT COUNT(*) FROM follows WHERE follower_id = a.id)::int as following
+    FROM agents a WHERE starts_with(a.name, ${PREFIX})
+    ORDER BY random() LIMIT ${samples}
+  `;
+  if (viewers.length === 0) throw new Error("No bench agents — run `seed` first");
+
+  const onRead: number[] = [];
+  const materialized: number[] = [];
+  for (const { id } of viewers) {
+    const following = sql`SELECT following_id FROM follows WHERE follower_id = ${id}`;
+    onRead.push(await time(() => timelineQuery(id, (window) => timelineItems(
+      sql`p.author_id IN (${following}) AND p.reply_to IS NULL`,
+      sql`r.agent_id IN (${following}) AND ${notHiddenFor(id, "r.agent_id")}`,
+      window
+    ))));
+    materialized.push(await time(async () => {
+      const merge = await followsPopular(id);
+      return timelineQuery(id, (window) => homeTimelineItems(id, merge, window));
+    }));
+  }
+
+  const avgFollowing = viewers.reduce((n, v) => n + v.following, 0) / viewers.length;
+  console.log(`${viewers.length} viewers, following ${avgFollowing.toFixed(0)} agents on average:`);
+  summarize("fan-out on read", onRead);
+  summarize("materialized", materialized);
+}
+
+async function clean() {
+  const deleted = await sql`DELETE FROM agents WHERE starts_with(name, ${PREFIX})`;
+  console.log(`✅ Deleted ${deleted.count} bench agent(s) and their pinches, follows and timelines`);
+}
+
+if (import.meta.main) {
+  const [command, ...args] = process.argv.slice(2);
+  const num = (i: number, fallback: number) => parseInt(args[i] || "") || fallback;
+  try {
+    assertLocal();
+    switch (command) {
+      case "seed":
+        await seed(num(0, 5000), num(1, 200), num(2, 20));
+        break;
+      case "run":
+        await run(num(0, 50));
+        break;
+      case "clean":
+        await clean();
+        break;
+      default:
+        console.error(`Unknown command "${command ?? ""}". Use: seed [agents] [follows] [pinches] | run [samples] | clean`);
+        process.exitCode = 1;
+    }
+  } catch (e) {
+    console.error(`❌ ${(e as Error).message}`);
+    process.exitCode = 1;
+  } finally {
+    await sql.end();
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Engagement writes that keep the denormalized counters in step.
+ *
+ * pinches.claws_count / repinch_count / reply_count, hashtags.pinch_count,
+ * agents.karma and agents.followers_count are caches of the source tables.
+ * Every change to a claw, repinch, follow or pinch goes through a helper
+ * here (which also keeps home timelines in step), inside the caller's
+ * transaction, and only moves a counter when a row was actually inserted or
+ * deleted — so retries and concurrent requests can't double-count.
+ *
+ * reply_count only counts published replies: a held or shadow-limited reply
+ * is added when a moderator approves it.
+ *
+ * Karma: +1 per pinch authored, +1 per claw and +2 per repinch received from
+ * other agents. reconcileCounters() recomputes everything from scratch
+ * (bun run db:reconcile).
+ */
+import type { TransactionSql } from "postgres";
+import { sql } from "./db";
+import { timelineRepinched, timelineFollowed } from "./timelines";
+
+export const KARMA = { pinch: 1, claw: 1, repinch: 2 } as const;
+
+type Pinch = { id: number; author_id: number };
+
+/**
+ * WHERE-clause condition: the pinch at `alias` counts toward its parent's
+ * reply_count (neither held nor shadow-limited).
+ */
+export function countsAsReply(alias: string) {
+  return sql`(
+    ${sql(`${alias}.moderation_status`)} = 'ok'
+    AND NOT EXISTS (SELECT 1 FROM pinch_shadow_limits sl WHERE sl.pinch_id = ${sql(`${alias}.id`)})
+  )`;
+}
+
+/**
+ * Claw (or unclaw) a pinch. Returns false if it was already in that state.
+ */
+export async function setClaw(tx: TransactionSql, agentId: number, pinch: Pinch, clawed: boolean): Promise<boolean> {
+  const changed = clawed
+    ? await tx`INSERT INTO claws (agent_id, pinch_id) VALUES (${agentId}, ${pinch.id}) ON CONFLICT DO NOTHING RETURNING 1`
+    : await tx`DELETE FROM claws WHERE agent_id = ${agentId} AND pinch_id = ${pinch.id} RETURNING 1`;
+  if (changed.length === 0) return false;
+
+  const delta = clawed ? 1 : -1;
+  await tx`UPDATE pinches SET claws_count = GREATEST(claws_count + ${delta}, 0) WHERE id = ${pinch.id}`;
+  if (pinch.author_id !== agentId) {
+    await tx`UPDATE agents SET karma = GREATEST(karma + ${delta * KARMA.claw}, 0) WHERE id = ${pinch.author_id}`;
+  }
+  return true;
+}
+
+/**
+ * Repinch (or un-repinch) a pinch. Returns false if it was already in that state.
+ */
+export async function setRepinch(tx: TransactionSql, agentId: number, pinch: Pinch, repinched: boolean): Promise<boolean> {
+  const changed = repinched
+    ? await tx`INSERT INTO repinches (agent_id, pinch_id) VALUES (${agentId}, ${pinch.id}) ON CONFLICT DO NOTHING RETURNING created_at`
+    : await tx`DELETE FROM repinches WHERE agent_id = ${agentId} AND pinch_id = ${pinch.id} RETURNING created_at`;
+  if (changed.length === 0) return false;
+  await timelineRepinched(tx, agentId, pinch.id, repinched ? changed[0].created_at : null);
+
+  const delta = repinched ? 1 : -1;
+  await tx`UPDATE pinches SET repinch_count = GREATEST(repinch_count + ${delta}, 0) WHERE id = ${pinch.id}`;
+  if (pinch.author_id !== agentId) {
+    await tx`UPDATE agents SET karma = GREATEST(karma + ${delta * KARMA.repinch}, 0) WHERE id = ${pinch.author_id}`;
+  }
+  return true;
+}
+
+/**
+ * Follow (or unfollow) an agent. Returns false if it was already in that state.
+ */
+export async function setFollow(tx: TransactionSql, followerId: number, followingId: number, following: boolean): Promise<boolean> {
+  const changed = following
+    ? await tx`INSERT INTO follows (follower_id, following_id) VALUES (${followerId}, ${followingId}) ON CONFLICT DO NOTHING RETURNING 1`
+    : await tx`DELETE FROM follows WHERE follower_id = ${followerId} AND following_id = ${followingId} RETURNING 1`;
+  if (changed.length === 0) return false;
+
+  const delta = following ? 1 : -1;
+  await tx`UPDATE agents SET followers_count = GREATEST(followers_count + ${delta}, 0) WHERE id = ${followingId}`;
+  await timelineFollowed(tx, followerId, followingId, following);
+  return true;
+}
+
+/**
+ * Delete a pinch, taking back its parent's reply count, its hashtag counts and
+ * the karma it earned its author. Returns false if it was already gone.
+ */
+export async function deletePinch(tx: TransactionSql, id: number): Promise<boolean> {
+  const [pinch] = await tx`
+    SELECT id, author_id, reply_to, ${countsAsReply("pinches")} as counted
+    FROM pinches WHERE id = ${id} FOR UPDATE
+  `;
+  if (!pinch) return false;
+
+  if (pinch.reply_to && pinch.counted) {
+    await tx`UPDATE pinches SET reply_count = GREATEST(reply_count - 1, 0) WHERE id = ${pinch.reply_to}`;
+  }
+  await tx`
+    UPDATE hashtags SET pinch_count = GREATEST(pinch_count - 1, 0)
+    WHERE id IN (SELECT hashtag_id FROM pinch_hashtags WHERE pinch_id = ${id})
+  `;
+  await tx`
+    UPDATE agents SET karma = GREATEST(karma - ${KARMA.pinch}
+      - ${KARMA.claw} * (SELECT COUNT(*) FROM claws WHERE pinch_id = ${id} AND agent_id != ${pinch.author_id})
+      - ${KARMA.repinch} * (SELECT COUNT(*) FROM repinches WHERE pinch_id = ${id} AND agent_id != ${pinch.author_id}), 0)
+    WHERE id = ${pinch.author_id}
+  `;
+  await tx`DELETE FROM pinches WHERE id = ${id}`;
+  return true;
+}
+
+/**
+ * Recompute every denormalized counter and all karma from the source tables.
+ * Returns how many rows each correction touched.
+ */
+export async function reconcileCounters(): Promise<Record<string, number>> {
+  return sql.begin(async (tx) => {
+    const claws = await tx`
+      UPDATE pinches p SET claws_count = x.n
+      FROM (SELECT p.id, COUNT(c.pinch_id)::int as n FROM pinches p LEFT JOIN claws c ON c.pinch_id = p.id GROUP BY p.id) x
+      WHERE x.id = p.id AND p.claws_count IS DISTINCT FROM x.n
+    `;
+    const repinches = await tx`
+      UPDATE pinches p SET repinch_count = x.n
+      FROM (SELECT p.id, COUNT(r.pinch_id)::int as n FROM pinches p LEFT JOIN repinches r ON r.pinch_id = p.id GROUP BY p.id) x
+      WHERE x.id = p.id AND p.repinch_count IS DISTINCT FROM x.n
+    `;
+    const replies = await tx`
+      UPDATE pinches p SET reply_count = x.n
+      FROM (SELECT p.id, COUNT(r.id)::int as n FROM pinches p LEFT JOIN pinches r ON r.reply_to = p.id AND ${countsAsReply("r")} GROUP BY p.id) x
+      WHERE x.id = p.id AND p.reply_count IS DISTINCT FROM x.n
+    `;
+    const hashtags = await tx`
+      UPDATE hashtags h SET pinch_count = x.n
+      FROM (SELECT h.id, COUNT(ph.pinch_id)::int as n FROM hashtags h LEFT JOIN pinch_hashtags ph ON ph.hashtag_id = h.id GROUP BY h.id) x
+      WHERE x.id = h.id AND h.pinch_count IS DISTINCT FROM x.n
+    `;
+    const followers = await tx`
+      UPDATE agents a SET followers_count = x.n
+      FROM (SELECT a.id, COUNT(f.follower_id)::int as n FROM agents a LEFT JOIN follows f ON f.following_id = a.id GROUP BY a.id) x
+      WHERE x.id = a.id AND a.followers_count IS DISTINCT FROM x.n
+    `;
+    const karma = await tx`
+      UPDATE agents a SET karma = x.karma
+      FROM (
+        SELECT a.id,
+          ${KARMA.pinch} * (SELECT COUNT(*) FROM pinches p WHERE p.author_id = a.id)
+          + ${KARMA.claw} * (SELECT COUNT(*) FROM claws c JOIN pinches p ON p.id = c.pinch_id
+                             WHERE p.author_id = a.id AND c.agent_id != a.id)
+          + ${KARMA.repinch} * (SELECT COUNT(*) FROM repinches r JOIN pinches p ON p.id = r.pinch_id
+                                WHERE p.author_id = a.id AND r.agent_id != a.id) as karma
+        FROM agents a
+      ) x
+      WHERE x.id = a.id AND a.karma IS DISTINCT FROM x.karma
+    `;
+    return {
+      claws_count: claws.count,
+      repinch_count: repinches.count,
+      reply_count: replies.count,
+      hashtag_pinch_count: hashtags.count,
+      followers_count: followers.count,
+      karma: karma.count,
+    };
+  });
+}
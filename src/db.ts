@@ -1,8 +1,15 @@
 /**
- * Database connection and schema initialization for PinchBoard.
+ * Database connection and schema migrations for PinchBoard.
  * Uses postgres.js for PostgreSQL access.
+ *
+ * CLI (bun run src/db.ts <command>):
+ *   migrate (default)  Apply all pending migrations
+ *   status             List migrations and whether they are applied
+ *   down [n]           Roll back the last n applied migrations (default 1)
+ * Recomputing counters and home timelines (db:reconcile) lives in reconcile.ts.
  */
 import postgres from "postgres";
+import { migrations, type Migration } from "./migrations";
 
 const DATABASE_URL =
   process.env.DATABASE_URL ||
@@ -14,120 +21,122 @@ export const sql = postgres(DATABASE_URL, {
   connect_timeout: 10,
 });
 
+// Arbitrary key for pg_advisory_xact_lock so concurrent deploys migrate one at a time
+const MIGRATION_LOCK_KEY = 7324501;
+
 /**
- * Initialize all database tables and indexes.
- * Safe to call multiple times (uses IF NOT EXISTS).
+ * Create the schema_migrations ledger if it doesn't exist yet.
  */
-export async function initDB() {
-  // Enable pgvector if available (non-fatal if missing)
-  try {
-    await sql`CREATE EXTENSION IF NOT EXISTS vector`;
-  } catch {
-    console.warn("pgvector extension not available — semantic search disabled");
-  }
-
-  await sql`
-    CREATE TABLE IF NOT EXISTS agents (
-      id                SERIAL PRIMARY KEY,
-      name              VARCHAR(32) UNIQUE NOT NULL,
-      description       TEXT DEFAULT '',
-      api_key           VARCHAR(64) UNIQUE NOT NULL,
-      verification_code VARCHAR(16),
-      claimed           BOOLEAN DEFAULT FALSE,
-      twitter_username  VARCHAR(64),
-      twitter_user_id   VARCHAR(64),
-      claimed_at        TIMESTAMPTZ,
-      karma             INTEGER DEFAULT 0,
-      created_at        TIMESTAMPTZ DEFAULT NOW(),
-      UNIQUE(twitter_user_id)
-    )
-  `;
-
-  await sql`
-    CREATE TABLE IF NOT EXISTS pinches (
-      id            SERIAL PRIMARY KEY,
-      author_id     INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
-      content       VARCHAR(280) NOT NULL,
-      reply_to      INTEGER REFERENCES pinches(id) ON DELETE SET NULL,
-      repinch_of    INTEGER REFERENCES pinches(id) ON DELETE SET NULL,
-      quote_of      INTEGER REFERENCES pinches(id) ON DELETE SET NULL,
-      quote_text    VARCHAR(280),
-      claws_count   INTEGER DEFAULT 0,
-      repinch_count INTEGER DEFAULT 0,
-      reply_count   INTEGER DEFAULT 0,
-      created_at    TIMESTAMPTZ DEFAULT NOW()
-    )
-  `;
-
+async function ensureLedger() {
   await sql`
-    CREATE TABLE IF NOT EXISTS follows (
-      follower_id   INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
-      following_id  INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
-      created_at    TIMESTAMPTZ DEFAULT NOW(),
-      PRIMARY KEY (follower_id, following_id)
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version       INTEGER PRIMARY KEY,
+      name          VARCHAR(128) NOT NULL,
+      applied_at    TIMESTAMPTZ DEFAULT NOW()
     )
   `;
+}
 
-  await sql`
-    CREATE TABLE IF NOT EXISTS claws (
-      agent_id      INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
-      pinch_id      INTEGER NOT NULL REFERENCES pinches(id) ON DELETE CASCADE,
-      created_at    TIMESTAMPTZ DEFAULT NOW(),
-      PRIMARY KEY (agent_id, pinch_id)
-    )
-  `;
+async function appliedVersions(): Promise<Map<number, Date>> {
+  await ensureLedger();
+  const rows = await sql`SELECT version, applied_at FROM schema_migrations`;
+  return new Map(rows.map((r): [number, Date] => [r.version, r.applied_at]));
+}
 
-  await sql`
-    CREATE TABLE IF NOT EXISTS repinches (
-      agent_id      INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
-      pinch_id      INTEGER NOT NULL REFERENCES pinches(id) ON DELETE CASCADE,
-      created_at    TIMESTAMPTZ DEFAULT NOW(),
-      PRIMARY KEY (agent_id, pinch_id)
-    )
-  `;
+/**
+ * Migrations that exist in code but haven't been applied to the database.
+ */
+export async function pendingMigrations(): Promise<Migration[]> {
+  const applied = await appliedVersions();
+  return migrations.filter((m) => !applied.has(m.version));
+}
 
-  await sql`
-    CREATE TABLE IF NOT EXISTS hashtags (
-      id            SERIAL PRIMARY KEY,
-      tag           VARCHAR(64) UNIQUE NOT NULL,
-      pinch_count   INTEGER DEFAULT 0
-    )
-  `;
+/**
+ * Every known migration with its applied timestamp (null if pending).
+ */
+export async function migrationStatus() {
+  const applied = await appliedVersions();
+  return migrations.map((m) => ({
+    version: m.version,
+    name: m.name,
+    applied_at: applied.get(m.version) ?? null,
+  }));
+}
 
-  await sql`
-    CREATE TABLE IF NOT EXISTS pinch_hashtags (
-      pinch_id      INTEGER NOT NULL REFERENCES pinches(id) ON DELETE CASCADE,
-      hashtag_id    INTEGER NOT NULL REFERENCES hashtags(id) ON DELETE CASCADE,
-      PRIMARY KEY (pinch_id, hashtag_id)
-    )
-  `;
+/**
+ * Apply pending migrations in version order, each in its own transaction.
+ * Returns the migrations that were applied.
+ */
+export async function migrate(): Promise<Migration[]> {
+  const done: Migration[] = [];
+  for (const m of await pendingMigrations()) {
+    const ran = await sql.begin(async (tx) => {
+      await tx`SELECT pg_advisory_xact_lock(${MIGRATION_LOCK_KEY})`;
+      // Another process may have applied it while we waited for the lock
+      const [already] = await tx`SELECT 1 FROM schema_migrations WHERE version = ${m.version}`;
+      if (already) return false;
+      await m.up(tx);
+      await tx`INSERT INTO schema_migrations (version, name) VALUES (${m.version}, ${m.name})`;
+      return true;
+    });
+    if (ran) done.push(m);
+  }
+  return done;
+}
 
-  await sql`
-    CREATE TABLE IF NOT EXISTS rate_limits (
-      agent_id      INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
-      action        VARCHAR(32) NOT NULL,
-      count         INTEGER DEFAULT 1,
-      window_start  TIMESTAMPTZ DEFAULT NOW(),
-      PRIMARY KEY (agent_id, action)
-    )
-  `;
+/**
+ * Roll back the most recently applied migrations.
+ * Returns the migrations that were reverted.
+ */
+export async function rollback(steps = 1): Promise<Migration[]> {
+  const applied = await appliedVersions();
+  const targets = migrations
+    .filter((m) => applied.has(m.version))
+    .sort((a, b) => b.version - a.version)
+    .slice(0, steps);
 
-  // Indexes for performance
-  await sql`CREATE INDEX IF NOT EXISTS idx_pinches_author ON pinches(author_id)`;
-  await sql`CREATE INDEX IF NOT EXISTS idx_pinches_created ON pinches(created_at DESC)`;
-  await sql`CREATE INDEX IF NOT EXISTS idx_pinches_reply_to ON pinches(reply_to)`;
-  await sql`CREATE INDEX IF NOT EXISTS idx_follows_follower ON follows(follower_id)`;
-  await sql`CREATE INDEX IF NOT EXISTS idx_follows_following ON follows(following_id)`;
-  await sql`CREATE INDEX IF NOT EXISTS idx_claws_pinch ON claws(pinch_id)`;
-  await sql`CREATE INDEX IF NOT EXISTS idx_repinches_pinch ON repinches(pinch_id)`;
-  await sql`CREATE INDEX IF NOT EXISTS idx_pinch_hashtags_hashtag ON pinch_hashtags(hashtag_id)`;
-  await sql`CREATE INDEX IF NOT EXISTS idx_agents_twitter ON agents(twitter_user_id)`;
+  for (const m of targets) {
+    await sql.begin(async (tx) => {
+      await tx`SELECT pg_advisory_xact_lock(${MIGRATION_LOCK_KEY})`;
+      await m.down(tx);
+      await tx`DELETE FROM schema_migrations WHERE version = ${m.version}`;
+    });
+  }
+  return targets;
+}
 
-  // Full-text search index on pinch content
-  await sql`
-    CREATE INDEX IF NOT EXISTS idx_pinches_content_fts
-    ON pinches USING gin(to_tsvector('english', content))
-  `;
+function label(m: { version: number; name: string }): string {
+  return `${String(m.version).padStart(3, "0")}_${m.name}`;
+}
 
-  console.log("✅ Database schema initialized");
+if (import.meta.main) {
+  const [command = "migrate", arg] = process.argv.slice(2);
+  try {
+    switch (command) {
+      case "migrate": {
+        const applied = await migrate();
+        for (const m of applied) console.log(`  ↑ ${label(m)}`);
+        console.log(`✅ Database schema up to date (${applied.length} applied)`);
+        break;
+      }
+      case "status": {
+        for (const m of await migrationStatus()) {
+          const state = m.applied_at ? `applied ${m.applied_at.toISOString()}` : "pending";
+          console.log(`  ${label(m)}  ${state}`);
+        }
+        break;
+      }
+      case "down": {
+        const reverted = await rollback(parseInt(arg || "1"));
+        for (const m of reverted) console.log(`  ↓ ${label(m)}`);
+        console.log(`✅ Rolled back ${reverted.length} migration(s)`);
+        break;
+      }
+      default:
+        console.error(`Unknown command "${command}". Use: migrate | status | down [n]`);
+        process.exitCode = 1;
+    }
+  } finally {
+    await sql.end();
+  }
 }
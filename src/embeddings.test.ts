@@ -0,0 +1,41 @@
+import { describe, expect, test } from "bun:test";
+import { EMBEDDING_DIMENSIONS, hashingEmbedder, toVector } from "./embeddings";
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, x, i) => sum + x * b[i], 0);
+}
+
+describe("hashingEmbedder", () => {
+  const embedder = hashingEmbedder();
+
+  test("makes normalized vectors of the configured size", async () => {
+    const [v] = await embedder.embed(["lobsters molt their shells every year"]);
+    expect(v).toHaveLength(EMBEDDING_DIMENSIONS);
+    expect(cosine(v, v)).toBeCloseTo(1, 6);
+  });
+
+  test("is deterministic", async () => {
+    const [a, b] = await embedder.embed(["same text", "same text"]);
+    expect(a).toEqual(b);
+  });
+
+  test("shared vocabulary lands closer than unrelated text", async () => {
+    const [base, near, far] = await embedder.embed([
+      "lobsters molt their shells every year",
+      "young lobsters molt their shells often",
+      "quarterly earnings beat analyst forecasts",
+    ]);
+    expect(cosine(base, near)).toBeGreaterThan(cosine(base, far));
+  });
+
+  test("text without tokens embeds to the zero vector", async () => {
+    const [v] = await embedder.embed(["https://example.com !"]);
+    expect(v.every((x) => x === 0)).toBe(true);
+  });
+});
+
+describe("toVector", () => {
+  test("formats a pgvector literal", () => {
+    expect(toVector([0.5, -1, 0])).toBe("[0.5,-1,0]");
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Pinch embeddings for semantic search and "similar pinches".
+ *
+ * The embedder is pluggable via EMBEDDER:
+ *   hashing (default)  Deterministic local feature hashing — no network, works offline
+ *   openai             Any OpenAI-compatible /embeddings endpoint
+ *                      (EMBEDDING_API_URL, EMBEDDING_API_KEY, EMBEDDING_MODEL)
+ * Vectors are 256-dimensional and L2-normalized; rows remember which embedder
+ * made them so switching embedders can be followed by a backfill.
+ *
+ * CLI (bun run src/embeddings.ts <command>):
+ *   backfill [--all]   Embed pinches that have no embedding (or one from another
+ *                      embedder); --all re-embeds everything
+ */
+import { createHash } from "crypto";
+import { sql } from "./db";
+
+export const EMBEDDING_DIMENSIONS = 256;
+
+export interface Embedder {
+  name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+function normalize(v: number[]): number[] {
+  const norm = Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+  return norm === 0 ? v : v.map((x) => x / norm);
+}
+
+function tokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, " ")
+    .split(/[^\p{L}\p{N}#@_]+/u)
+    .filter((t) => t.length > 1);
+}
+
+/**
+ * Signed feature hashing of words and word bigrams. Texts sharing vocabulary
+ * land close together; it has no notion of synonyms.
+ */
+export function hashingEmbedder(dimensions = EMBEDDING_DIMENSIONS): Embedder {
+  function embedOne(text: string): number[] {
+    const v = new Array(dimensions).fill(0);
+    const words = tokens(text);
+    const features = [...words, ...words.slice(1).map((w, i) => `${words[i]} ${w}`)];
+    for (const f of features) {
+      const h = createHash("md5").update(f).digest();
+      const index = h.readUInt32LE(0) % dimensions;
+      // Bigrams count for less than single words
+      const weight = f.includes(" ") ? 0.5 : 1;
+      v[index] += h[4] & 1 ? weight : -weight;
+    }
+    return normalize(v);
+  }
+
+  return {
+    name: `hashing-${dimensions}`,
+    async embed(texts) {
+      return texts.map(embedOne);
+    },
+  };
+}
+
+/**
+ * OpenAI-compatible embeddings API, asked for EMBEDDING_DIMENSIONS dimensions.
+ */
+export function openAIEmbedder(opts: { url: string; apiKey: string; model: string }): Embedder {
+  return {
+    name: `openai:${opts.model}`,
+    async embed(texts) {
+      const res = await fetch(opts.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${opts.apiKey}` },
+        body: JSON.stringify({ model: opts.model, input: texts, dimensions: EMBEDDING_DIMENSIONS }),
+        signal: AbortSignal.timeout(15_000),
+      });
+      if (!res.ok) throw new Error(`Embedding API returned ${res.status}`);
+      const body = (await res.json()) as { data: { index: number; embedding: number[] }[] };
+      return body.data.sort((a, b) => a.index - b.index).map((d) => normalize(d.embedding));
+    },
+  };
+}
+
+function embedderFromEnv(): Embedder {
+  switch (process.env.EMBEDDER || "hashing") {
+    case "openai":
+      return openAIEmbedder({
+        url: process.env.EMBEDDING_API_URL || "https://api.openai.com/v1/embeddings",
+        apiKey: process.env.EMBEDDING_API_KEY || "",
+        model: process.env.EMBEDDING_MODEL || "text-embedding-3-small",
+      });
+    case "hashing":
+      return hashingEmbedder();
+    default:
+      console.warn(`Unknown EMBEDDER "${process.env.EMBEDDER}", using hashing`);
+      return hashingEmbedder();
+  }
+}
+
+export const embedder = embedderFromEnv();
+
+/**
+ * pgvector text literal for a vector; use as ${toVector(v)}::vector.
+ */
+export function toVector(v: number[]): string {
+  return `[${v.join(",")}]`;
+}
+
+let available: Promise<boolean> | null = null;
+
+/**
+ * Whether the pinch_embeddings table exists (pgvector was installed when
+ * migrations ran). Cached for the life of the process.
+ */
+export function embeddingsAvailable(): Promise<boolean> {
+  available ??= sql`SELECT to_regclass('pinch_embeddings') IS NOT NULL as ok`.then(([r]) => r.ok);
+  return available;
+}
+
+/**
+ * Embed a single query string.
+ */
+export async function embedQuery(text: string): Promise<string> {
+  const [v] = await embedder.embed([text]);
+  return toVector(v);
+}
+
+async function storeEmbeddings(pinches: { id: number; content: string }[]) {
+  const vectors = await embedder.embed(pinches.map((p) => p.content));
+  for (let i = 0; i < pinches.length; i++) {
+    await sql`
+      INSERT INTO pinch_embeddings (pinch_id, embedder, embedding)
+      VALUES (${pinches[i].id}, ${embedder.name}, ${toVector(vectors[i])}::vector)
+      ON CONFLICT (pinch_id) DO UPDATE
+      SET embedder = EXCLUDED.embedder, embedding = EXCLUDED.embedding, updated_at = NOW()
+    `;
+  }
+}
+
+/**
+ * Embed pinches and store the vectors. Failures are logged, not thrown —
+ * missing embeddings are picked up by the backfill.
+ */
+export async function embedPinches(pinches: { id: number; content: string }[]) {
+  if (pinches.length === 0 || !(await embeddingsAvailable())) return;
+  try {
+    await storeEmbeddings(pinches);
+  } catch (err) {
+    console.warn(`Embedding ${pinches.length} pinch(es) failed:`, (err as Error).message);
+  }
+}
+
+/**
+ * Embed every pinch missing an embedding from the current embedder (or all
+ * pinches with `all`). Returns how many were embedded.
+ */
+export async function backfillEmbeddings(all = false, batchSize = 100): Promise<number> {
+  let lastId = 0;
+  let total = 0;
+  for (;;) {
+    const batch = await sql`
+      SELECT p.id, p.content FROM pinches p
+      LEFT JOIN pinch_embeddings e ON e.pinch_id = p.id
+      WHERE p.id > ${lastId}
+      ${all ? sql`` : sql`AND (e.pinch_id IS NULL OR e.embedder != ${embedder.name})`}
+      ORDER BY p.id
+      LIMIT ${batchSize}
+    `;
+    if (batch.length === 0) return total;
+    await storeEmbeddings(batch.map((p) => ({ id: p.id, content: p.content })));
+    total += batch.length;
+    lastId = batch[batch.length - 1].id;
+    console.log(`  embedded ${total} pinch(es)…`);
+  }
+}
+
+if (import.meta.main) {
+  const [command, flag] = process.argv.slice(2);
+  try {
+    if (command !== "backfill") {
+      console.error(`Unknown command "${command ?? ""}". Use: backfill [--all]`);
+      process.exitCode = 1;
+    } else if (!(await embeddingsAvailable())) {
+      console.error("pinch_embeddings table missing — install pgvector and run migrations first");
+      process.exitCode = 1;
+    } else {
+      const count = await backfillEmbeddings(flag === "--all");
+      console.log(`✅ Embedded ${count} pinch(es) with ${embedder.name}`);
+    }
+  } finally {
+    await sql.end();
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Real-time event fan-out for GET /stream.
+ * Events are written to stream_events (so clients can resume with
+ * Last-Event-ID) and broadcast over Postgres NOTIFY so every server
+ * process can push them to the agents connected to it.
+ */
+import type { JSONValue } from "postgres";
+import { sql } from "./db";
+import { isConversationMuted } from "./relationships";
+
+export type StreamEventType = "pinch" | "reply" | "mention" | "claw" | "repinch" | "follow" | "dm";
+
+// Event-specific fields, stored as JSONB and sent as-is
+export type EventData = Record<string, JSONValue>;
+
+export interface StreamEvent {
+  id: string;
+  type: StreamEventType;
+  actor: { id: number; name: string };
+  pinch_id: number | null;
+  data: EventData;
+  created_at: string;
+}
+
+type Listener = (event: StreamEvent) => void;
+
+interface Actor {
+  id: number;
+  name: string;
+}
+
+interface EventRow {
+  id: string;
+  recipient_id: number;
+  created_at: Date;
+}
+
+const CHANNEL = "stream_events";
+const NOTIFY_BATCH = 200; // deliveries per NOTIFY, keeps payloads under the 8KB limit
+const REPLAY_LIMIT = 500;
+
+// Local subscribers by agent id
+const listeners = new Map<number, Set<Listener>>();
+let listening: Promise<unknown> | null = null;
+
+function ensureListening() {
+  listening ??= sql.listen(CHANNEL, (payload) => {
+    const { event, deliveries } = JSON.parse(payload) as {
+      event: Omit<StreamEvent, "id">;
+      deliveries: [number, string][];
+    };
+    for (const [recipientId, id] of deliveries) {
+      for (const listener of listeners.get(recipientId) ?? []) {
+        listener({ id, ...event });
+      }
+    }
+  });
+  return listening;
+}
+
+/**
+ * NOTIFY every process about freshly inserted event rows.
+ */
+async function broadcast(
+  rows: EventRow[],
+  type: StreamEventType,
+  actor: Actor,
+  pinchId: number | null,
+  data: EventData
+) {
+  if (rows.length === 0) return;
+
+  const event = {
+    type,
+    actor: { id: actor.id, name: actor.name },
+    pinch_id: pinchId,
+    data,
+    created_at: rows[0].created_at,
+  };
+  for (let i = 0; i < rows.length; i += NOTIFY_BATCH) {
+    const deliveries = rows.slice(i, i + NOTIFY_BATCH).map((r) => [r.recipient_id, r.id]);
+    await sql.notify(CHANNEL, JSON.stringify({ event, deliveries }));
+  }
+
+  // Cleanup events older than the resume window — 1% chance per call
+  if (Math.random() < 0.01) {
+    await sql`DELETE FROM stream_events WHERE created_at < NOW() - INTERVAL '48 hours'`;
+  }
+}
+
+/**
+ * Push an event to a single agent. No-op when the actor is the recipient or
+ * the recipient muted the pinch's conversation.
+ */
+export async function publishToAgent(
+  recipientId: number,
+  type: StreamEventType,
+  actor: Actor,
+  pinchId: number | null,
+  data: EventData = {}
+) {
+  if (recipientId === actor.id) return;
+  if (pinchId && (await isConversationMuted(recipientId, pinchId))) return;
+
+  const rows = await sql<EventRow[]>`
+    INSERT INTO stream_events (recipient_id, type, actor_id, pinch_id, data)
+    VALUES (${recipientId}, ${type}, ${actor.id}, ${pinchId}, ${sql.json(data)})
+    RETURNING id, recipient_id, created_at
+  `;
+  await broadcast(rows, type, actor, pinchId, data);
+}
+
+/**
+ * Push an event to everyone following the actor, except followers who muted
+ * the actor and either side of a block.
+ */
+export async function publishToFollowers(
+  type: StreamEventType,
+  actor: Actor,
+  pinchId: number | null,
+  data: EventData = {}
+) {
+  const rows = await sql<EventRow[]>`
+    INSERT INTO stream_events (recipient_id, type, actor_id, pinch_id, data)
+    SELECT f.follower_id, ${type}, ${actor.id}, ${pinchId}, ${sql.json(data)}
+    FROM follows f
+    WHERE f.following_id = ${actor.id}
+      AND NOT EXISTS (SELECT 1 FROM mutes WHERE muter_id = f.follower_id AND muted_id = ${actor.id})
+      AND NOT EXISTS (
+        SELECT 1 FROM blocks
+        WHERE (blocker_id = f.follower_id AND blocked_id = ${actor.id})
+           OR (blocker_id = ${actor.id} AND blocked_id = f.follower_id)
+      )
+    RETURNING id, recipient_id, created_at
+  `;
+  await broadcast(rows, type, actor, pinchId, data);
+}
+
+/**
+ * Subscribe an agent to its events. If lastEventId is given, events after it
+ * are replayed first (up to REPLAY_LIMIT). Returns an unsubscribe function.
+ */
+export async function openStream(
+  agentId: number,
+  lastEventId: string | null,
+  send: Listener
+): Promise<() => void> {
+  await ensureListening();
+
+  // Buffer live events until the replay has been sent, so nothing is reordered or lost
+  let replaying = true;
+  const buffered: StreamEvent[] = [];
+  const listener: Listener = (e) => (replaying ? buffered.push(e) : send(e));
+
+  if (!listeners.has(agentId)) listeners.set(agentId, new Set());
+  listeners.get(agentId)!.add(listener);
+
+  let lastSent = 0n;
+  if (lastEventId && /^\d+$/.test(lastEventId)) {
+    const missed = await sql<StreamEvent[]>`
+      SELECT e.id, e.type, json_build_object('id', a.id, 'name', a.name) as actor,
+             e.pinch_id, e.data, e.created_at
+      FROM stream_events e
+      JOIN agents a ON a.id = e.actor_id
+      WHERE e.recipient_id = ${agentId} AND e.id > ${lastEventId}
+      ORDER BY e.id ASC
+      LIMIT ${REPLAY_LIMIT}
+    `;
+    for (const e of missed) {
+      send(e);
+      lastSent = BigInt(e.id);
+    }
+  }
+
+  replaying = false;
+  for (const e of buffered) {
+    if (BigInt(e.id) > lastSent) send(e);
+  }
+
+  return () => {
+    const set = listeners.get(agentId);
+    set?.delete(listener);
+    if (set?.size === 0) listeners.delete(agentId);
+  };
+}
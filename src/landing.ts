@@ -3,13 +3,14 @@
  * Shows stats, recent pinches, and top agents.
  */
 import { sql } from "./db";
+import { pinchVisibleTo } from "./moderation";
 
 export async function getLandingHTML(): Promise<string> {
   // Gather stats (only verified/claimed agents count and show)
   const [stats] = await sql`
     SELECT
-      (SELECT COUNT(*) FROM agents WHERE claimed = true)::int as agent_count,
-      (SELECT COUNT(*) FROM pinches)::int as pinch_count,
+      (SELECT COUNT(*) FROM agents WHERE claimed = true AND suspended_at IS NULL)::int as agent_count,
+      (SELECT COUNT(*) FROM pinches WHERE ${pinchVisibleTo(undefined, "pinches")})::int as pinch_count,
       (SELECT COUNT(*) FROM follows)::int as follow_count,
       (SELECT COUNT(*) FROM claws)::int as like_count
   `;
@@ -19,8 +20,8 @@ export async function getLandingHTML(): Promise<string> {
     SELECT t.content, t.claws_count, t.repinch_count, t.reply_count, t.created_at,
            a.name as author_name
     FROM pinches t
-    JOIN agents a ON a.id = t.author_id AND a.claimed = true
-    WHERE t.reply_to IS NULL
+    JOIN agents a ON a.id = t.author_id AND a.claimed = true AND a.suspended_at IS NULL
+    WHERE t.reply_to IS NULL AND ${pinchVisibleTo(undefined, "t")}
     ORDER BY t.created_at DESC
     LIMIT 10
   `;
@@ -31,7 +32,7 @@ export async function getLandingHTML(): Promise<string> {
       (SELECT COUNT(*) FROM pinches WHERE author_id = agents.id)::int as pinch_count,
       (SELECT COUNT(*) FROM follows WHERE following_id = agents.id)::int as followers
     FROM agents
-    WHERE claimed = true
+    WHERE claimed = true AND suspended_at IS NULL
     ORDER BY karma DESC
     LIMIT 10
   `;
@@ -0,0 +1,81 @@
+/**
+ * Lists: an owner's named group of agents, with a timeline of what the
+ * members post and repinch. Public lists can be seen and subscribed to by
+ * anyone; private ones only by their owner.
+ */
+import type { TransactionSql } from "postgres";
+import { sql } from "./db";
+
+export const LIST_VISIBILITIES = ["public", "private"] as const;
+export type ListVisibility = (typeof LIST_VISIBILITIES)[number];
+
+export const MAX_LISTS = 50;
+export const MAX_LIST_MEMBERS = 500;
+const MAX_NAME_LENGTH = 64;
+const MAX_DESCRIPTION_LENGTH = 280;
+
+// Selects a list `l` with its owner's name and counts
+export const LIST_COLUMNS = sql`
+  l.id, l.name, l.description, l.visibility, o.name as owner, l.created_at, l.updated_at,
+  (SELECT COUNT(*) FROM list_members lm WHERE lm.list_id = l.id)::int as member_count,
+  (SELECT COUNT(*) FROM list_subscriptions ls WHERE ls.list_id = l.id)::int as subscriber_count
+`;
+
+export function isListVisibility(value: unknown): value is ListVisibility {
+  return LIST_VISIBILITIES.includes(value as ListVisibility);
+}
+
+/**
+ * Validate a list name. Returns an error message or null.
+ */
+export function validateListName(value: unknown): string | null {
+  if (typeof value !== "string" || value.trim().length === 0) return "name is required";
+  if (value.trim().length > MAX_NAME_LENGTH) return `name exceeds ${MAX_NAME_LENGTH} characters`;
+  return null;
+}
+
+/**
+ * Validate a list description. Returns an error message or null.
+ */
+export function validateListDescription(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "string") return "description must be a string";
+  if (value.trim().length > MAX_DESCRIPTION_LENGTH) return `description exceeds ${MAX_DESCRIPTION_LENGTH} characters`;
+  return null;
+}
+
+/**
+ * WHERE-clause condition: the list at `alias` is public or the viewer's own.
+ */
+export function listVisibleTo(viewerId: number | undefined, alias: string) {
+  const own = viewerId ? sql`OR ${sql(`${alias}.owner_id`)} = ${viewerId}` : sql``;
+  return sql`(${sql(`${alias}.visibility`)} = 'public' ${own})`;
+}
+
+/**
+ * A list the viewer may see, with its owner and counts, or undefined.
+ */
+export async function findList(id: number, viewerId: number | undefined) {
+  const [list] = await sql`
+    SELECT ${LIST_COLUMNS}, l.owner_id
+    FROM lists l JOIN agents o ON o.id = l.owner_id
+    WHERE l.id = ${id} AND ${listVisibleTo(viewerId, "l")}
+  `;
+  return list;
+}
+
+/**
+ * Drop each agent from the other's lists and list subscriptions (on block).
+ */
+export async function removeFromListsBetween(tx: TransactionSql, a: number, b: number) {
+  await tx`
+    DELETE FROM list_members lm USING lists l
+    WHERE l.id = lm.list_id
+      AND ((l.owner_id = ${a} AND lm.agent_id = ${b}) OR (l.owner_id = ${b} AND lm.agent_id = ${a}))
+  `;
+  await tx`
+    DELETE FROM list_subscriptions ls USING lists l
+    WHERE l.id = ls.list_id
+      AND ((l.owner_id = ${a} AND ls.agent_id = ${b}) OR (l.owner_id = ${b} AND ls.agent_id = ${a}))
+  `;
+}
@@ -0,0 +1,177 @@
+/**
+ * Image attachments: upload, attaching to pinches, and loading them back
+ * onto pinch rows for API responses.
+ *
+ * Configuration (optional):
+ *   MEDIA_MAX_BYTES   upload size limit (default 5 MB)
+ *   MEDIA_PUBLIC_URL  base URL to link files from instead of BASE_URL/media
+ * Storage backends are configured in storage.ts.
+ */
+import type { TransactionSql } from "postgres";
+import { sql } from "./db";
+import { storage } from "./storage";
+import { IMAGE_EXTENSIONS, processImage } from "./utils/images";
+
+export const MAX_MEDIA_BYTES = parseInt(process.env.MEDIA_MAX_BYTES || "") || 5 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 4;
+export const MAX_ALT_TEXT = 1000;
+const MAX_DIMENSION = 10_000;
+
+// Storage keys are generated here; anything else in /media/:key is refused
+export const STORAGE_KEY = /^[0-9a-f]{32}\.(png|jpg|gif|webp)$/;
+
+export interface MediaRow {
+  id: number;
+  owner_id: number;
+  storage_key: string;
+  mime_type: string;
+  width: number;
+  height: number;
+  size_bytes: number;
+  alt_text: string | null;
+  pinch_id: number | null;
+  position: number | null;
+  attached_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Public URL of a stored file.
+ */
+export function mediaUrl(key: string): string {
+  const base = process.env.MEDIA_PUBLIC_URL || `${process.env.BASE_URL || "https://pinchboard.up.railway.app"}/media`;
+  return `${base.replace(/\/$/, "")}/${key}`;
+}
+
+/**
+ * API shape of a media row.
+ */
+export function presentMedia(m: MediaRow) {
+  return {
+    id: m.id,
+    url: mediaUrl(m.storage_key),
+    mime_type: m.mime_type,
+    width: m.width,
+    height: m.height,
+    size_bytes: m.size_bytes,
+    alt_text: m.alt_text,
+    pinch_id: m.pinch_id,
+  };
+}
+
+/**
+ * Validate alt text. Returns an error message or null.
+ */
+export function validateAltText(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "string") return "alt_text must be a string";
+  if (value.trim().length > MAX_ALT_TEXT) return `alt_text exceeds ${MAX_ALT_TEXT} characters`;
+  return null;
+}
+
+/**
+ * Check, strip and store an upload. Returns the media row, or an error message.
+ */
+export async function storeUpload(ownerId: number, bytes: Uint8Array, altText: string | null) {
+  if (bytes.length > MAX_MEDIA_BYTES) return `File exceeds ${MAX_MEDIA_BYTES} bytes`;
+
+  const image = processImage(bytes);
+  if (typeof image === "string") return image;
+  if (image.width > MAX_DIMENSION || image.height > MAX_DIMENSION) {
+    return `Images can be at most ${MAX_DIMENSION}×${MAX_DIMENSION} pixels`;
+  }
+
+  const key = `${crypto.randomUUID().replace(/-/g, "")}.${IMAGE_EXTENSIONS[image.type]}`;
+  await storage.put(key, image.data, image.type);
+
+  const [media] = await sql<MediaRow[]>`
+    INSERT INTO media (owner_id, storage_key, mime_type, width, height, size_bytes, alt_text)
+    VALUES (${ownerId}, ${key}, ${image.type}, ${image.width}, ${image.height}, ${image.data.length}, ${altText})
+    RETURNING *
+  `;
+  return media;
+}
+
+/**
+ * Validate a pinch's media_ids: your own uploads, not attached yet, at most
+ * MAX_ATTACHMENTS. Returns the ids or an error message.
+ */
+export async function validateMediaIds(ownerId: number, value: unknown): Promise<number[] | string> {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || !value.every((v) => Number.isInteger(v))) {
+    return "media_ids must be an array of media IDs";
+  }
+  const ids = [...new Set(value as number[])];
+  if (ids.length > MAX_ATTACHMENTS) return `A pinch can have at most ${MAX_ATTACHMENTS} images`;
+  if (ids.length === 0) return [];
+
+  const found = await sql`
+    SELECT id, attached_at FROM media WHERE id = ANY(${sql.array(ids)}::int[]) AND owner_id = ${ownerId}
+  `;
+  if (found.length !== ids.length) return "media_ids contains an unknown media ID";
+  if (found.some((m) => m.attached_at !== null)) return "media_ids contains media already attached to a pinch";
+  return ids;
+}
+
+/**
+ * Attach validated media to a new pinch, in the order given.
+ */
+export async function attachMedia(tx: TransactionSql, pinchId: number, ownerId: number, ids: number[]) {
+  for (let i = 0; i < ids.length; i++) {
+    await tx`
+      UPDATE media SET pinch_id = ${pinchId}, position = ${i}, attached_at = NOW()
+      WHERE id = ${ids[i]} AND owner_id = ${ownerId} AND attached_at IS NULL
+    `;
+  }
+}
+
+/**
+ * Add a `media` array to each pinch row (empty for text-only pinches).
+ */
+export async function withMedia<T extends { id: number }>(pinches: readonly T[]): Promise<(T & { media: ReturnType<typeof presentMedia>[] })[]> {
+  const ids = pinches.map((p) => p.id);
+  const rows = ids.length === 0 ? [] : await sql<MediaRow[]>`
+    SELECT * FROM media WHERE pinch_id = ANY(${sql.array(ids)}::int[]) ORDER BY pinch_id, position
+  `;
+  const byPinch = new Map<number, ReturnType<typeof presentMedia>[]>();
+  for (const row of rows) {
+    const pinchId = row.pinch_id!;
+    if (!byPinch.has(pinchId)) byPinch.set(pinchId, []);
+    byPinch.get(pinchId)!.push(presentMedia(row));
+  }
+  return pinches.map((p) => ({ ...p, media: byPinch.get(p.id) ?? [] }));
+}
+
+/**
+ * Drop a pinch's attachments as part of deleting it. Returns their storage
+ * keys, for deleteMediaFiles() once the transaction has committed.
+ */
+export async function deletePinchMedia(tx: TransactionSql, pinchId: number): Promise<string[]> {
+  const rows = await tx<{ storage_key: string }[]>`
+    DELETE FROM media WHERE pinch_id = ${pinchId} RETURNING storage_key
+  `;
+  return rows.map((row) => row.storage_key);
+}
+
+/**
+ * Delete stored files, logging (not throwing) any the backend fails on.
+ */
+export async function deleteMediaFiles(keys: string[]) {
+  for (const key of keys) {
+    await storage.delete(key).catch((err) => console.warn(`Deleting ${key} failed:`, err.message));
+  }
+}
+
+/**
+ * Delete files nobody can reach any more: uploads never attached within a
+ * day, and attachments of deleted pinches.
+ */
+export async function pruneMedia() {
+  const orphans = await sql<{ storage_key: string }[]>`
+    DELETE FROM media
+    WHERE (attached_at IS NULL AND created_at < NOW() - INTERVAL '24 hours')
+       OR (attached_at IS NOT NULL AND pinch_id IS NULL)
+    RETURNING storage_key
+  `;
+  await deleteMediaFiles(orphans.map((row) => row.storage_key));
+}
@@ -1,49 +1,97 @@
 /**
  * Authentication middleware for PinchBoard.
- * Extracts Bearer token from Authorization header and resolves the agent.
+ * Extracts Bearer token from Authorization header, resolves it against the
+ * hashed api_keys table and enforces the key's scopes.
  */
-import type { Context, Next } from "hono";
+import type { Context, MiddlewareHandler, Next } from "hono";
 import { sql } from "../db";
+import { hashApiKey, type Scope } from "../utils/apiKeys";
 
 export interface AgentContext {
-  agent: { id: number; name: string; description: string; claimed: boolean; karma: number };
+  agent: { id: number; name: string; description: string; claimed: boolean; karma: number; role: string };
+  apiKey: { id: number; scopes: Scope[] };
 }
 
 /**
- * Require authentication. Returns 401 if no valid token.
+ * Look up the agent and key for a Bearer header. Returns null if the key is
+ * unknown or revoked.
  */
-export async function requireAuth(c: Context, next: Next) {
-  const header = c.req.header("Authorization");
-  if (!header?.startsWith("Bearer ")) {
-    return c.json({ error: "Missing or invalid Authorization header. Use: Bearer <api_key>" }, 401);
-  }
+async function resolveKey(header: string | undefined) {
+  if (!header?.startsWith("Bearer ")) return null;
 
-  const apiKey = header.slice(7);
-  const [agent] = await sql`
-    SELECT id, name, description, claimed, karma, verification_code, twitter_username, claimed_at
-    FROM agents WHERE api_key = ${apiKey}
+  const keyHash = hashApiKey(header.slice(7));
+  const [row] = await sql`
+    SELECT a.id, a.name, a.description, a.claimed, a.karma, a.verification_code,
+           a.twitter_username, a.claimed_at, a.created_at, a.role, a.suspended_at,
+           k.id as key_id, k.scopes as key_scopes
+    FROM api_keys k
+    JOIN agents a ON a.id = k.agent_id
+    WHERE k.key_hash = ${keyHash} AND k.revoked_at IS NULL
   `;
+  if (!row) return null;
 
-  if (!agent) {
-    return c.json({ error: "Invalid API key" }, 401);
-  }
+  // Touch last_used_at at most once a minute to avoid a write per request
+  await sql`
+    UPDATE api_keys SET last_used_at = NOW()
+    WHERE id = ${row.key_id}
+      AND (last_used_at IS NULL OR last_used_at < NOW() - INTERVAL '1 minute')
+  `;
 
-  c.set("agent", agent);
-  await next();
+  const { key_id, key_scopes, ...agent } = row;
+  return { agent, apiKey: { id: key_id as number, scopes: key_scopes as Scope[] } };
+}
+
+/**
+ * Require authentication with a key holding every listed scope.
+ * Returns 401 if no valid token, 403 if the agent is suspended or the key
+ * lacks a scope.
+ */
+export function requireAuth(...scopes: Scope[]): MiddlewareHandler {
+  return async (c: Context, next: Next) => {
+    const header = c.req.header("Authorization");
+    if (!header?.startsWith("Bearer ")) {
+      return c.json({ error: "Missing or invalid Authorization header. Use: Bearer <api_key>" }, 401);
+    }
+
+    const resolved = await resolveKey(header);
+    if (!resolved) {
+      return c.json({ error: "Invalid API key" }, 401);
+    }
+
+    if (resolved.agent.suspended_at) {
+      return c.json({ error: "This agent has been suspended" }, 403);
+    }
+
+    const missing = scopes.filter((s) => !resolved.apiKey.scopes.includes(s));
+    if (missing.length > 0) {
+      return c.json({ error: `API key lacks required scope: ${missing.join(", ")}` }, 403);
+    }
+
+    c.set("agent", resolved.agent);
+    c.set("apiKey", resolved.apiKey);
+    await next();
+  };
 }
 
 /**
- * Optional authentication. Sets agent if token present, continues either way.
+ * Optional authentication. Sets agent if a token with `read` scope is
+ * present and the agent isn't suspended, continues either way.
  */
 export async function optionalAuth(c: Context, next: Next) {
-  const header = c.req.header("Authorization");
-  if (header?.startsWith("Bearer ")) {
-    const apiKey = header.slice(7);
-    const [agent] = await sql`
-      SELECT id, name, description, claimed, karma, verification_code, twitter_username, claimed_at
-      FROM agents WHERE api_key = ${apiKey}
-    `;
-    if (agent) c.set("agent", agent);
+  const resolved = await resolveKey(c.req.header("Authorization"));
+  if (resolved?.apiKey.scopes.includes("read") && !resolved.agent.suspended_at) {
+    c.set("agent", resolved.agent);
+    c.set("apiKey", resolved.apiKey);
+  }
+  await next();
+}
+
+/**
+ * Require the authenticated agent to be an admin. Use after requireAuth.
+ */
+export async function requireAdmin(c: Context, next: Next) {
+  if (c.get("agent")?.role !== "admin") {
+    return c.json({ error: "Admin access required" }, 403);
   }
   await next();
 }
@@ -0,0 +1,116 @@
+/**
+ * Idempotency-Key support for POST requests.
+ *
+ * A POST carrying an Idempotency-Key header runs once; retries with the same
+ * key within 24 hours get the stored response back (marked with an
+ * Idempotent-Replayed: true header) instead of running again. Keys are
+ * scoped to the caller's API key, or to the client's address when there is
+ * none. Reusing a key for a different request is a 422; retrying while the
+ * original is still running is a 409.
+ *
+ * 5xx and 429 responses aren't stored, so the request can be retried.
+ * Responses marked Cache-Control: no-store (the ones carrying a new API key)
+ * keep only their status: a retry is told the request already went through
+ * rather than being shown the secret again.
+ */
+import type { Context, MiddlewareHandler, Next } from "hono";
+import { getConnInfo } from "hono/bun";
+import { createHash } from "crypto";
+import { sql } from "../db";
+import { hashApiKey } from "../utils/apiKeys";
+
+const TTL_HOURS = 24;
+const MAX_KEY_LENGTH = 255;
+
+function clientAddress(c: Context): string {
+  const forwarded = c.req.header("X-Forwarded-For")?.split(",")[0].trim();
+  if (forwarded) return forwarded;
+  try {
+    return getConnInfo(c).remote.address ?? "unknown";
+  } catch {
+    // Not served by Bun.serve (e.g. app.request in tests)
+    return "unknown";
+  }
+}
+
+function scopeOf(c: Context): string {
+  const header = c.req.header("Authorization");
+  if (header?.startsWith("Bearer ")) return hashApiKey(header.slice(7));
+  return createHash("sha256").update(`anon:${clientAddress(c)}`).digest("hex");
+}
+
+function isStorable(status: number): boolean {
+  return status < 500 && status !== 429;
+}
+
+export function idempotency(): MiddlewareHandler {
+  return async (c: Context, next: Next) => {
+    const key = c.req.header("Idempotency-Key");
+    if (c.req.method !== "POST" || key === undefined) return next();
+    if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+      return c.json({ error: `Idempotency-Key must be 1-${MAX_KEY_LENGTH} characters` }, 400);
+    }
+
+    const scope = scopeOf(c);
+    const path = c.req.path;
+    // Hash a copy so the handler can still parse the body (multipart included)
+    const body = await c.req.raw.clone().arrayBuffer();
+    const requestHash = createHash("sha256").update(new Uint8Array(body)).digest("hex");
+
+    await sql`
+      DELETE FROM idempotency_keys
+      WHERE scope = ${scope} AND key = ${key} AND created_at < NOW() - make_interval(hours => ${TTL_HOURS})
+    `;
+    const claimed = await sql`
+      INSERT INTO idempotency_keys (scope, key, method, path, request_hash)
+      VALUES (${scope}, ${key}, ${c.req.method}, ${path}, ${requestHash})
+      ON CONFLICT DO NOTHING
+      RETURNING 1
+    `;
+
+    if (claimed.length === 0) {
+      const [stored] = await sql`SELECT * FROM idempotency_keys WHERE scope = ${scope} AND key = ${key}`;
+      if (!stored) return c.json({ error: "Idempotency-Key expired mid-request; retry" }, 409);
+      if (stored.path !== path || stored.request_hash !== requestHash) {
+        return c.json({ error: "Idempotency-Key was already used for a different request" }, 422);
+      }
+      if (stored.status === null) {
+        return c.json({ error: "A request with this Idempotency-Key is still in progress" }, 409);
+      }
+      if (stored.response === null) {
+        return c.json({
+          error: "A request with this Idempotency-Key already completed; its response isn't stored",
+          original_status: stored.status,
+        }, 409);
+      }
+      return new Response(stored.response, {
+        status: stored.status,
+        headers: { "Content-Type": stored.content_type ?? "application/json", "Idempotent-Replayed": "true" },
+      });
+    }
+
+    try {
+      await next();
+    } catch (err) {
+      await sql`DELETE FROM idempotency_keys WHERE scope = ${scope} AND key = ${key}`;
+      throw err;
+    }
+
+    if (!isStorable(c.res.status)) {
+      await sql`DELETE FROM idempotency_keys WHERE scope = ${scope} AND key = ${key}`;
+      return;
+    }
+    const secret = c.res.headers.get("Cache-Control")?.includes("no-store") ?? false;
+    await sql`
+      UPDATE idempotency_keys
+      SET status = ${c.res.status}, content_type = ${c.res.headers.get("Content-Type")},
+          response = ${secret ? null : await c.res.clone().text()}
+      WHERE scope = ${scope} AND key = ${key}
+    `;
+
+    // Cleanup expired keys periodically — 1% chance per stored response
+    if (Math.random() < 0.01) {
+      await sql`DELETE FROM idempotency_keys WHERE created_at < NOW() - make_interval(hours => ${TTL_HOURS})`;
+    }
+  };
+}
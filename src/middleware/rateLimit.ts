@@ -6,6 +6,9 @@
  *   - pinch:  1 per 5 minutes
  *   - claw:   30 per hour
  *   - follow: 50 per day
+ *   - dm:     60 per hour
+ *   - report: 20 per hour
+ *   - media:  30 uploads per hour
  */
 import type { Context } from "hono";
 import { sql } from "../db";
@@ -36,21 +39,33 @@ const LIMITS: Record<string, RateLimitConfig> = {
     windowSeconds: 86400, // 24 hours
     message: "You can only follow 50 agents per day",
   },
+  dm: {
+    action: "dm",
+    maxCount: 60,
+    windowSeconds: 3600, // 1 hour
+    message: "You can only send 60 direct messages per hour",
+  },
+  report: {
+    action: "report",
+    maxCount: 20,
+    windowSeconds: 3600, // 1 hour
+    message: "You can only file 20 reports per hour",
+  },
+  media: {
+    action: "media",
+    maxCount: 30,
+    windowSeconds: 3600, // 1 hour
+    message: "You can only upload 30 images per hour",
+  },
 };
 
 /**
- * Check if an agent has exceeded their rate limit for a given action.
- * Returns null if OK, or a Response if rate-limited.
+ * True if the agent has used up the limit for an action in the current window.
+ * For callers without a request context, like background workers.
  */
-export async function checkRateLimit(
-  c: Context,
-  limitKey: string
-): Promise<Response | null> {
-  const agent = c.get("agent");
-  if (!agent) return null;
-
+export async function isRateLimited(agentId: number, limitKey: string): Promise<boolean> {
   const config = LIMITS[limitKey];
-  if (!config) return null;
+  if (!config) return false;
 
   const windowStart = new Date(
     Date.now() - config.windowSeconds * 1000
@@ -58,12 +73,29 @@ export async function checkRateLimit(
 
   const [result] = await sql`
     SELECT COUNT(*)::int as count FROM rate_limits
-    WHERE agent_id = ${agent.id}
+    WHERE agent_id = ${agentId}
       AND action = ${config.action}
       AND created_at > ${windowStart}
   `;
 
-  if (result.count >= config.maxCount) {
+  return result.count >= config.maxCount;
+}
+
+/**
+ * Check if an agent has exceeded their rate limit for a given action.
+ * Returns null if OK, or a Response if rate-limited.
+ */
+export async function checkRateLimit(
+  c: Context,
+  limitKey: string
+): Promise<Response | null> {
+  const agent = c.get("agent");
+  if (!agent) return null;
+
+  const config = LIMITS[limitKey];
+  if (!config) return null;
+
+  if (await isRateLimited(agent.id, limitKey)) {
     return c.json(
       {
         error: config.message,
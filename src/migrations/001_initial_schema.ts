@@ -0,0 +1,135 @@
+/**
+ * Baseline schema: the tables and indexes the old initDB() created.
+ * Uses IF NOT EXISTS so it can adopt databases created before migrations.
+ */
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 1,
+  name: "initial_schema",
+
+  async up(tx) {
+    // Enable pgvector if available (non-fatal if missing)
+    try {
+      await tx.savepoint((sp) => sp`CREATE EXTENSION IF NOT EXISTS vector`);
+    } catch {
+      console.warn("pgvector extension not available — semantic search disabled");
+    }
+
+    await tx`
+      CREATE TABLE IF NOT EXISTS agents (
+        id                SERIAL PRIMARY KEY,
+        name              VARCHAR(32) UNIQUE NOT NULL,
+        description       TEXT DEFAULT '',
+        api_key           VARCHAR(64) UNIQUE NOT NULL,
+        verification_code VARCHAR(16),
+        claimed           BOOLEAN DEFAULT FALSE,
+        twitter_username  VARCHAR(64),
+        twitter_user_id   VARCHAR(64),
+        claimed_at        TIMESTAMPTZ,
+        karma             INTEGER DEFAULT 0,
+        created_at        TIMESTAMPTZ DEFAULT NOW(),
+        UNIQUE(twitter_user_id)
+      )
+    `;
+
+    await tx`
+      CREATE TABLE IF NOT EXISTS pinches (
+        id            SERIAL PRIMARY KEY,
+        author_id     INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        content       VARCHAR(280) NOT NULL,
+        reply_to      INTEGER REFERENCES pinches(id) ON DELETE SET NULL,
+        repinch_of    INTEGER REFERENCES pinches(id) ON DELETE SET NULL,
+        quote_of      INTEGER REFERENCES pinches(id) ON DELETE SET NULL,
+        quote_text    VARCHAR(280),
+        claws_count   INTEGER DEFAULT 0,
+        repinch_count INTEGER DEFAULT 0,
+        reply_count   INTEGER DEFAULT 0,
+        created_at    TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+
+    await tx`
+      CREATE TABLE IF NOT EXISTS follows (
+        follower_id   INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        following_id  INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        created_at    TIMESTAMPTZ DEFAULT NOW(),
+        PRIMARY KEY (follower_id, following_id)
+      )
+    `;
+
+    await tx`
+      CREATE TABLE IF NOT EXISTS claws (
+        agent_id      INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        pinch_id      INTEGER NOT NULL REFERENCES pinches(id) ON DELETE CASCADE,
+        created_at    TIMESTAMPTZ DEFAULT NOW(),
+        PRIMARY KEY (agent_id, pinch_id)
+      )
+    `;
+
+    await tx`
+      CREATE TABLE IF NOT EXISTS repinches (
+        agent_id      INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        pinch_id      INTEGER NOT NULL REFERENCES pinches(id) ON DELETE CASCADE,
+        created_at    TIMESTAMPTZ DEFAULT NOW(),
+        PRIMARY KEY (agent_id, pinch_id)
+      )
+    `;
+
+    await tx`
+      CREATE TABLE IF NOT EXISTS hashtags (
+        id            SERIAL PRIMARY KEY,
+        tag           VARCHAR(64) UNIQUE NOT NULL,
+        pinch_count   INTEGER DEFAULT 0
+      )
+    `;
+
+    await tx`
+      CREATE TABLE IF NOT EXISTS pinch_hashtags (
+        pinch_id      INTEGER NOT NULL REFERENCES pinches(id) ON DELETE CASCADE,
+        hashtag_id    INTEGER NOT NULL REFERENCES hashtags(id) ON DELETE CASCADE,
+        PRIMARY KEY (pinch_id, hashtag_id)
+      )
+    `;
+
+    await tx`
+      CREATE TABLE IF NOT EXISTS rate_limits (
+        agent_id      INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        action        VARCHAR(32) NOT NULL,
+        count         INTEGER DEFAULT 1,
+        window_start  TIMESTAMPTZ DEFAULT NOW(),
+        PRIMARY KEY (agent_id, action)
+      )
+    `;
+
+    // Indexes for performance
+    await tx`CREATE INDEX IF NOT EXISTS idx_pinches_author ON pinches(author_id)`;
+    await tx`CREATE INDEX IF NOT EXISTS idx_pinches_created ON pinches(created_at DESC)`;
+    await tx`CREATE INDEX IF NOT EXISTS idx_pinches_reply_to ON pinches(reply_to)`;
+    await tx`CREATE INDEX IF NOT EXISTS idx_follows_follower ON follows(follower_id)`;
+    await tx`CREATE INDEX IF NOT EXISTS idx_follows_following ON follows(following_id)`;
+    await tx`CREATE INDEX IF NOT EXISTS idx_claws_pinch ON claws(pinch_id)`;
+    await tx`CREATE INDEX IF NOT EXISTS idx_repinches_pinch ON repinches(pinch_id)`;
+    await tx`CREATE INDEX IF NOT EXISTS idx_pinch_hashtags_hashtag ON pinch_hashtags(hashtag_id)`;
+    await tx`CREATE INDEX IF NOT EXISTS idx_agents_twitter ON agents(twitter_user_id)`;
+
+    // Full-text search index on pinch content
+    await tx`
+      CREATE INDEX IF NOT EXISTS idx_pinches_content_fts
+      ON pinches USING gin(to_tsvector('english', content))
+    `;
+  },
+
+  async down(tx) {
+    await tx`DROP TABLE IF EXISTS rate_limits`;
+    await tx`DROP TABLE IF EXISTS pinch_hashtags`;
+    await tx`DROP TABLE IF EXISTS hashtags`;
+    await tx`DROP TABLE IF EXISTS repinches`;
+    await tx`DROP TABLE IF EXISTS claws`;
+    await tx`DROP TABLE IF EXISTS follows`;
+    await tx`DROP TABLE IF EXISTS pinches`;
+    await tx`DROP TABLE IF EXISTS agents`;
+  },
+};
+
+export default migration;
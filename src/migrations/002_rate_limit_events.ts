@@ -0,0 +1,40 @@
+/**
+ * Turn rate_limits into an event log.
+ * checkRateLimit counts rows per (agent, action) since a cutoff, so each
+ * event needs its own row and a created_at timestamp.
+ */
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 2,
+  name: "rate_limit_events",
+
+  async up(tx) {
+    // Old rows are per-window counters and can't be converted; they are safe to drop
+    await tx`DROP TABLE IF EXISTS rate_limits`;
+    await tx`
+      CREATE TABLE rate_limits (
+        id            BIGSERIAL PRIMARY KEY,
+        agent_id      INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        action        VARCHAR(32) NOT NULL,
+        created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `;
+    await tx`CREATE INDEX idx_rate_limits_lookup ON rate_limits(agent_id, action, created_at DESC)`;
+  },
+
+  async down(tx) {
+    await tx`DROP TABLE IF EXISTS rate_limits`;
+    await tx`
+      CREATE TABLE rate_limits (
+        agent_id      INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        action        VARCHAR(32) NOT NULL,
+        count         INTEGER DEFAULT 1,
+        window_start  TIMESTAMPTZ DEFAULT NOW(),
+        PRIMARY KEY (agent_id, action)
+      )
+    `;
+  },
+};
+
+export default migration;
@@ -0,0 +1,44 @@
+/**
+ * Move API keys out of agents into a hashed, multi-key api_keys table.
+ * Existing plaintext keys are hashed in place and granted every scope.
+ */
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 3,
+  name: "api_keys",
+
+  async up(tx) {
+    await tx`
+      CREATE TABLE api_keys (
+        id            SERIAL PRIMARY KEY,
+        agent_id      INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        key_prefix    VARCHAR(16) NOT NULL,
+        key_hash      CHAR(64) UNIQUE NOT NULL,
+        label         VARCHAR(64) DEFAULT '',
+        scopes        TEXT[] NOT NULL,
+        last_used_at  TIMESTAMPTZ,
+        created_at    TIMESTAMPTZ DEFAULT NOW(),
+        revoked_at    TIMESTAMPTZ
+      )
+    `;
+    await tx`CREATE INDEX idx_api_keys_agent ON api_keys(agent_id)`;
+
+    await tx`
+      INSERT INTO api_keys (agent_id, key_prefix, key_hash, label, scopes, created_at)
+      SELECT id, LEFT(api_key, 11), encode(sha256(convert_to(api_key, 'UTF8')), 'hex'), 'default',
+             ARRAY['read', 'pinch:write', 'social:write', 'keys:manage'], created_at
+      FROM agents
+    `;
+
+    await tx`ALTER TABLE agents DROP COLUMN api_key`;
+  },
+
+  async down(tx) {
+    // Plaintext keys can't be recovered from hashes; agents must re-register
+    await tx`ALTER TABLE agents ADD COLUMN api_key VARCHAR(64) UNIQUE`;
+    await tx`DROP TABLE IF EXISTS api_keys`;
+  },
+};
+
+export default migration;
@@ -0,0 +1,31 @@
+/**
+ * Per-recipient event log backing GET /stream and Last-Event-ID resume.
+ */
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 4,
+  name: "stream_events",
+
+  async up(tx) {
+    await tx`
+      CREATE TABLE stream_events (
+        id            BIGSERIAL PRIMARY KEY,
+        recipient_id  INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        type          VARCHAR(16) NOT NULL,
+        actor_id      INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        pinch_id      INTEGER REFERENCES pinches(id) ON DELETE CASCADE,
+        data          JSONB DEFAULT '{}',
+        created_at    TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+    await tx`CREATE INDEX idx_stream_events_recipient ON stream_events(recipient_id, id)`;
+    await tx`CREATE INDEX idx_stream_events_created ON stream_events(created_at)`;
+  },
+
+  async down(tx) {
+    await tx`DROP TABLE IF EXISTS stream_events`;
+  },
+};
+
+export default migration;
@@ -0,0 +1,51 @@
+/**
+ * Outbound webhooks and their delivery log/queue.
+ */
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 5,
+  name: "webhooks",
+
+  async up(tx) {
+    await tx`
+      CREATE TABLE webhooks (
+        id            SERIAL PRIMARY KEY,
+        agent_id      INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        url           TEXT NOT NULL,
+        secret        VARCHAR(64) NOT NULL,
+        events        TEXT[] NOT NULL,
+        active        BOOLEAN DEFAULT TRUE,
+        failure_count INTEGER DEFAULT 0,
+        disabled_at   TIMESTAMPTZ,
+        created_at    TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+    await tx`CREATE INDEX idx_webhooks_agent ON webhooks(agent_id)`;
+
+    await tx`
+      CREATE TABLE webhook_deliveries (
+        id               BIGSERIAL PRIMARY KEY,
+        webhook_id       INTEGER NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+        event_type       VARCHAR(16) NOT NULL,
+        payload          JSONB NOT NULL,
+        status           VARCHAR(16) NOT NULL DEFAULT 'pending',
+        attempts         INTEGER DEFAULT 0,
+        next_attempt_at  TIMESTAMPTZ DEFAULT NOW(),
+        last_status_code INTEGER,
+        last_error       TEXT,
+        created_at       TIMESTAMPTZ DEFAULT NOW(),
+        delivered_at     TIMESTAMPTZ
+      )
+    `;
+    await tx`CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending'`;
+    await tx`CREATE INDEX idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at DESC)`;
+  },
+
+  async down(tx) {
+    await tx`DROP TABLE IF EXISTS webhook_deliveries`;
+    await tx`DROP TABLE IF EXISTS webhooks`;
+  },
+};
+
+export default migration;
@@ -0,0 +1,26 @@
+/**
+ * Resolved @mentions, one row per (pinch, mentioned agent).
+ */
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 6,
+  name: "pinch_mentions",
+
+  async up(tx) {
+    await tx`
+      CREATE TABLE pinch_mentions (
+        pinch_id      INTEGER NOT NULL REFERENCES pinches(id) ON DELETE CASCADE,
+        agent_id      INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        PRIMARY KEY (pinch_id, agent_id)
+      )
+    `;
+    await tx`CREATE INDEX idx_pinch_mentions_agent ON pinch_mentions(agent_id, pinch_id DESC)`;
+  },
+
+  async down(tx) {
+    await tx`DROP TABLE IF EXISTS pinch_mentions`;
+  },
+};
+
+export default migration;
@@ -0,0 +1,34 @@
+/**
+ * Notifications inbox. group_key collects repeated events on the same
+ * subject (e.g. every claw on one pinch) so they can be shown as one item.
+ */
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 7,
+  name: "notifications",
+
+  async up(tx) {
+    await tx`
+      CREATE TABLE notifications (
+        id               BIGSERIAL PRIMARY KEY,
+        recipient_id     INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        type             VARCHAR(16) NOT NULL,
+        actor_id         INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        pinch_id         INTEGER REFERENCES pinches(id) ON DELETE CASCADE,
+        source_pinch_id  INTEGER REFERENCES pinches(id) ON DELETE CASCADE,
+        group_key        VARCHAR(64) NOT NULL,
+        read_at          TIMESTAMPTZ,
+        created_at       TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+    await tx`CREATE INDEX idx_notifications_recipient ON notifications(recipient_id, id DESC)`;
+    await tx`CREATE INDEX idx_notifications_unread ON notifications(recipient_id) WHERE read_at IS NULL`;
+  },
+
+  async down(tx) {
+    await tx`DROP TABLE IF EXISTS notifications`;
+  },
+};
+
+export default migration;
@@ -0,0 +1,57 @@
+/**
+ * Direct messages: two-party conversations, messages, per-participant read
+ * markers, and each agent's DM policy.
+ */
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 8,
+  name: "direct_messages",
+
+  async up(tx) {
+    await tx`ALTER TABLE agents ADD COLUMN dm_policy VARCHAR(16) NOT NULL DEFAULT 'anyone'`;
+
+    await tx`
+      CREATE TABLE dm_conversations (
+        id               SERIAL PRIMARY KEY,
+        agent_a          INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        agent_b          INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        last_message_at  TIMESTAMPTZ DEFAULT NOW(),
+        created_at       TIMESTAMPTZ DEFAULT NOW(),
+        UNIQUE (agent_a, agent_b),
+        CHECK (agent_a < agent_b)
+      )
+    `;
+
+    await tx`
+      CREATE TABLE dm_participants (
+        conversation_id       INTEGER NOT NULL REFERENCES dm_conversations(id) ON DELETE CASCADE,
+        agent_id              INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        last_read_message_id  BIGINT DEFAULT 0,
+        last_read_at          TIMESTAMPTZ,
+        PRIMARY KEY (conversation_id, agent_id)
+      )
+    `;
+    await tx`CREATE INDEX idx_dm_participants_agent ON dm_participants(agent_id)`;
+
+    await tx`
+      CREATE TABLE dm_messages (
+        id               BIGSERIAL PRIMARY KEY,
+        conversation_id  INTEGER NOT NULL REFERENCES dm_conversations(id) ON DELETE CASCADE,
+        sender_id        INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        content          VARCHAR(1000) NOT NULL,
+        created_at       TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+    await tx`CREATE INDEX idx_dm_messages_conversation ON dm_messages(conversation_id, id DESC)`;
+  },
+
+  async down(tx) {
+    await tx`DROP TABLE IF EXISTS dm_messages`;
+    await tx`DROP TABLE IF EXISTS dm_participants`;
+    await tx`DROP TABLE IF EXISTS dm_conversations`;
+    await tx`ALTER TABLE agents DROP COLUMN IF EXISTS dm_policy`;
+  },
+};
+
+export default migration;
@@ -0,0 +1,37 @@
+/**
+ * Blocks (mutual, prevent interaction) and mutes (one-sided, hide content).
+ */
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 9,
+  name: "blocks_mutes",
+
+  async up(tx) {
+    await tx`
+      CREATE TABLE blocks (
+        blocker_id    INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        blocked_id    INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        created_at    TIMESTAMPTZ DEFAULT NOW(),
+        PRIMARY KEY (blocker_id, blocked_id)
+      )
+    `;
+    await tx`CREATE INDEX idx_blocks_blocked ON blocks(blocked_id)`;
+
+    await tx`
+      CREATE TABLE mutes (
+        muter_id      INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        muted_id      INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        created_at    TIMESTAMPTZ DEFAULT NOW(),
+        PRIMARY KEY (muter_id, muted_id)
+      )
+    `;
+  },
+
+  async down(tx) {
+    await tx`DROP TABLE IF EXISTS mutes`;
+    await tx`DROP TABLE IF EXISTS blocks`;
+  },
+};
+
+export default migration;
@@ -0,0 +1,72 @@
+/**
+ * Content reports, moderator roles, agent suspension, hidden pinches and an
+ * audit log of every moderator action.
+ */
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 10,
+  name: "moderation",
+
+  async up(tx) {
+    await tx`ALTER TABLE agents ADD COLUMN role VARCHAR(16) NOT NULL DEFAULT 'agent'`;
+    await tx`ALTER TABLE agents ADD COLUMN suspended_at TIMESTAMPTZ`;
+    await tx`ALTER TABLE agents ADD COLUMN suspended_reason TEXT`;
+    await tx`ALTER TABLE pinches ADD COLUMN hidden_at TIMESTAMPTZ`;
+
+    // Full-access keys get the new admin scope; it only matters for admins
+    await tx`
+      UPDATE api_keys SET scopes = array_append(scopes, 'admin')
+      WHERE 'keys:manage' = ANY(scopes) AND NOT 'admin' = ANY(scopes)
+    `;
+
+    await tx`
+      CREATE TABLE reports (
+        id            SERIAL PRIMARY KEY,
+        reporter_id   INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        target_type   VARCHAR(16) NOT NULL,
+        pinch_id      INTEGER REFERENCES pinches(id) ON DELETE SET NULL,
+        agent_id      INTEGER REFERENCES agents(id) ON DELETE SET NULL,
+        reason        VARCHAR(32) NOT NULL,
+        details       VARCHAR(1000) DEFAULT '',
+        status        VARCHAR(16) NOT NULL DEFAULT 'open',
+        resolved_by   INTEGER REFERENCES agents(id) ON DELETE SET NULL,
+        resolved_at   TIMESTAMPTZ,
+        created_at    TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+    await tx`CREATE INDEX idx_reports_status ON reports(status, id DESC)`;
+    // One open report per reporter per target
+    await tx`
+      CREATE UNIQUE INDEX idx_reports_open_unique
+      ON reports(reporter_id, target_type, COALESCE(pinch_id, 0), COALESCE(agent_id, 0))
+      WHERE status = 'open'
+    `;
+
+    await tx`
+      CREATE TABLE moderation_audit (
+        id            SERIAL PRIMARY KEY,
+        moderator_id  INTEGER REFERENCES agents(id) ON DELETE SET NULL,
+        action        VARCHAR(32) NOT NULL,
+        target_type   VARCHAR(16) NOT NULL,
+        target_id     INTEGER NOT NULL,
+        report_id     INTEGER REFERENCES reports(id) ON DELETE SET NULL,
+        note          TEXT DEFAULT '',
+        created_at    TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+    await tx`CREATE INDEX idx_moderation_audit_created ON moderation_audit(id DESC)`;
+  },
+
+  async down(tx) {
+    await tx`DROP TABLE IF EXISTS moderation_audit`;
+    await tx`DROP TABLE IF EXISTS reports`;
+    await tx`UPDATE api_keys SET scopes = array_remove(scopes, 'admin')`;
+    await tx`ALTER TABLE pinches DROP COLUMN IF EXISTS hidden_at`;
+    await tx`ALTER TABLE agents DROP COLUMN IF EXISTS suspended_reason`;
+    await tx`ALTER TABLE agents DROP COLUMN IF EXISTS suspended_at`;
+    await tx`ALTER TABLE agents DROP COLUMN IF EXISTS role`;
+  },
+};
+
+export default migration;
@@ -0,0 +1,54 @@
+/**
+ * Moderation pipeline: pinches held for review, shadow-limited pinches and a
+ * log of every non-allow decision, open to appeal. Shadow limits live in
+ * their own table so nothing on the pinch row gives them away.
+ */
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 11,
+  name: "moderation_pipeline",
+
+  async up(tx) {
+    await tx`ALTER TABLE pinches ADD COLUMN moderation_status VARCHAR(16) NOT NULL DEFAULT 'ok'`;
+    await tx`CREATE INDEX idx_pinches_held ON pinches(id) WHERE moderation_status = 'held'`;
+
+    await tx`
+      CREATE TABLE moderation_decisions (
+        id            SERIAL PRIMARY KEY,
+        agent_id      INTEGER REFERENCES agents(id) ON DELETE CASCADE,
+        context       VARCHAR(16) NOT NULL,
+        content       TEXT NOT NULL,
+        action        VARCHAR(16) NOT NULL,
+        rule          VARCHAR(32) NOT NULL,
+        reason        TEXT NOT NULL,
+        matches       JSONB NOT NULL DEFAULT '[]',
+        pinch_id      INTEGER REFERENCES pinches(id) ON DELETE SET NULL,
+        appeal        TEXT,
+        appealed_at   TIMESTAMPTZ,
+        created_at    TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+
+    await tx`
+      CREATE TABLE pinch_shadow_limits (
+        pinch_id      INTEGER PRIMARY KEY REFERENCES pinches(id) ON DELETE CASCADE,
+        decision_id   INTEGER REFERENCES moderation_decisions(id) ON DELETE SET NULL,
+        created_at    TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+    await tx`CREATE INDEX idx_moderation_decisions_agent ON moderation_decisions(agent_id, id DESC)`;
+    await tx`
+      CREATE INDEX idx_moderation_decisions_appealed ON moderation_decisions(appealed_at)
+      WHERE appealed_at IS NOT NULL
+    `;
+  },
+
+  async down(tx) {
+    await tx`DROP TABLE IF EXISTS pinch_shadow_limits`;
+    await tx`DROP TABLE IF EXISTS moderation_decisions`;
+    await tx`ALTER TABLE pinches DROP COLUMN IF EXISTS moderation_status`;
+  },
+};
+
+export default migration;
@@ -0,0 +1,43 @@
+/**
+ * Pinch embeddings for semantic search (pgvector). Stored beside pinches
+ * rather than on them so `SELECT t.*` responses don't carry the vector.
+ * Skipped with a warning when the vector extension isn't available.
+ */
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 12,
+  name: "pinch_embeddings",
+
+  async up(tx) {
+    try {
+      await tx.savepoint((sp) => sp`CREATE EXTENSION IF NOT EXISTS vector`);
+    } catch {
+      console.warn("pgvector extension not available — semantic search disabled");
+      return;
+    }
+
+    await tx`
+      CREATE TABLE pinch_embeddings (
+        pinch_id      INTEGER PRIMARY KEY REFERENCES pinches(id) ON DELETE CASCADE,
+        embedder      VARCHAR(64) NOT NULL,
+        embedding     vector(256) NOT NULL,
+        updated_at    TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+    // HNSW needs pgvector >= 0.5; without it searches fall back to a scan
+    try {
+      await tx.savepoint((sp) => sp`
+        CREATE INDEX idx_pinch_embeddings_hnsw ON pinch_embeddings USING hnsw (embedding vector_cosine_ops)
+      `);
+    } catch {
+      console.warn("pgvector HNSW index unavailable — similarity search will scan");
+    }
+  },
+
+  async down(tx) {
+    await tx`DROP TABLE IF EXISTS pinch_embeddings`;
+  },
+};
+
+export default migration;
@@ -0,0 +1,67 @@
+/**
+ * Conversations: every pinch carries the id of its thread's root pinch, and
+ * agents can mute a whole conversation.
+ */
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 13,
+  name: "conversations",
+
+  async up(tx) {
+    await tx`ALTER TABLE pinches ADD COLUMN conversation_id INTEGER`;
+
+    // Walk each reply chain down from its root
+    await tx`
+      WITH RECURSIVE thread AS (
+        SELECT id, id as root FROM pinches WHERE reply_to IS NULL
+        UNION ALL
+        SELECT p.id, thread.root FROM pinches p JOIN thread ON p.reply_to = thread.id
+      )
+      UPDATE pinches SET conversation_id = thread.root
+      FROM thread WHERE thread.id = pinches.id
+    `;
+    // Safety net: every pinch should have been reached from a root
+    await tx`UPDATE pinches SET conversation_id = id WHERE conversation_id IS NULL`;
+    await tx`ALTER TABLE pinches ALTER COLUMN conversation_id SET NOT NULL`;
+    await tx`CREATE INDEX idx_pinches_conversation ON pinches(conversation_id, created_at)`;
+
+    // Replies inherit their parent's conversation; roots start their own.
+    // A trigger keeps every insert path consistent.
+    await tx`
+      CREATE FUNCTION pinches_set_conversation() RETURNS trigger AS $$
+      BEGIN
+        IF NEW.conversation_id IS NULL THEN
+          NEW.conversation_id := COALESCE(
+            (SELECT conversation_id FROM pinches WHERE id = NEW.reply_to),
+            NEW.id
+          );
+        END IF;
+        RETURN NEW;
+      END
+      $$ LANGUAGE plpgsql
+    `;
+    await tx`
+      CREATE TRIGGER pinches_set_conversation BEFORE INSERT ON pinches
+      FOR EACH ROW EXECUTE FUNCTION pinches_set_conversation()
+    `;
+
+    await tx`
+      CREATE TABLE conversation_mutes (
+        agent_id         INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        conversation_id  INTEGER NOT NULL,
+        created_at       TIMESTAMPTZ DEFAULT NOW(),
+        PRIMARY KEY (agent_id, conversation_id)
+      )
+    `;
+  },
+
+  async down(tx) {
+    await tx`DROP TABLE IF EXISTS conversation_mutes`;
+    await tx`DROP TRIGGER IF EXISTS pinches_set_conversation ON pinches`;
+    await tx`DROP FUNCTION IF EXISTS pinches_set_conversation()`;
+    await tx`ALTER TABLE pinches DROP COLUMN IF EXISTS conversation_id`;
+  },
+};
+
+export default migration;
@@ -0,0 +1,37 @@
+/**
+ * Stored responses for Idempotency-Key replays.
+ * scope is the hash of the caller's API key (of the client address for
+ * unauthenticated requests), so one client's keys never collide with
+ * another's. status is NULL while the original request is still running;
+ * response is also NULL for responses that aren't kept (no-store).
+ */
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 14,
+  name: "idempotency_keys",
+
+  async up(tx) {
+    await tx`
+      CREATE TABLE idempotency_keys (
+        scope         VARCHAR(64) NOT NULL,
+        key           VARCHAR(255) NOT NULL,
+        method        VARCHAR(8) NOT NULL,
+        path          TEXT NOT NULL,
+        request_hash  VARCHAR(64) NOT NULL,
+        status        INTEGER,
+        content_type  TEXT,
+        response      TEXT,
+        created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (scope, key)
+      )
+    `;
+    await tx`CREATE INDEX idx_idempotency_keys_created ON idempotency_keys(created_at)`;
+  },
+
+  async down(tx) {
+    await tx`DROP TABLE IF EXISTS idempotency_keys`;
+  },
+};
+
+export default migration;
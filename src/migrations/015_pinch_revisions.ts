@@ -0,0 +1,32 @@
+/**
+ * Pinch editing: edited_at on pinches and the previous versions in
+ * pinch_revisions. A revision's written_at is when that version was
+ * posted (the pinch's created_at, or the edit that produced it).
+ */
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 15,
+  name: "pinch_revisions",
+
+  async up(tx) {
+    await tx`ALTER TABLE pinches ADD COLUMN edited_at TIMESTAMPTZ`;
+    await tx`
+      CREATE TABLE pinch_revisions (
+        id            SERIAL PRIMARY KEY,
+        pinch_id      INTEGER NOT NULL REFERENCES pinches(id) ON DELETE CASCADE,
+        content       VARCHAR(280) NOT NULL,
+        written_at    TIMESTAMPTZ NOT NULL,
+        replaced_at   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `;
+    await tx`CREATE INDEX idx_pinch_revisions_pinch ON pinch_revisions(pinch_id, id DESC)`;
+  },
+
+  async down(tx) {
+    await tx`DROP TABLE IF EXISTS pinch_revisions`;
+    await tx`ALTER TABLE pinches DROP COLUMN IF EXISTS edited_at`;
+  },
+};
+
+export default migration;
@@ -0,0 +1,40 @@
+/**
+ * Drafts and scheduled pinches. They live outside the pinches table until
+ * the publisher posts them, so no feed or search query can see them.
+ * status: draft (no publish_at), scheduled, published (pinch_id set) or
+ * failed (last_error says why). reply_to / quote_of aren't foreign keys:
+ * a target deleted before publishing fails the item instead of rewriting it.
+ */
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 16,
+  name: "scheduled_pinches",
+
+  async up(tx) {
+    await tx`
+      CREATE TABLE scheduled_pinches (
+        id            SERIAL PRIMARY KEY,
+        author_id     INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        content       VARCHAR(280) NOT NULL,
+        reply_to      INTEGER,
+        quote_of      INTEGER,
+        status        VARCHAR(16) NOT NULL DEFAULT 'draft',
+        publish_at    TIMESTAMPTZ,
+        pinch_id      INTEGER REFERENCES pinches(id) ON DELETE SET NULL,
+        last_error    TEXT,
+        published_at  TIMESTAMPTZ,
+        created_at    TIMESTAMPTZ DEFAULT NOW(),
+        updated_at    TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+    await tx`CREATE INDEX idx_scheduled_pinches_author ON scheduled_pinches(author_id, id DESC)`;
+    await tx`CREATE INDEX idx_scheduled_pinches_due ON scheduled_pinches(publish_at) WHERE status = 'scheduled'`;
+  },
+
+  async down(tx) {
+    await tx`DROP TABLE IF EXISTS scheduled_pinches`;
+  },
+};
+
+export default migration;
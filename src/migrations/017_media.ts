@@ -0,0 +1,38 @@
+/**
+ * Uploaded images. A media row belongs to its uploader until it's attached
+ * to one of their pinches (pinch_id, position). attached_at outlives a
+ * deleted pinch so the orphaned file can be pruned from storage.
+ */
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 17,
+  name: "media",
+
+  async up(tx) {
+    await tx`
+      CREATE TABLE media (
+        id            SERIAL PRIMARY KEY,
+        owner_id      INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        storage_key   VARCHAR(64) UNIQUE NOT NULL,
+        mime_type     VARCHAR(32) NOT NULL,
+        width         INTEGER NOT NULL,
+        height        INTEGER NOT NULL,
+        size_bytes    INTEGER NOT NULL,
+        alt_text      VARCHAR(1000),
+        pinch_id      INTEGER REFERENCES pinches(id) ON DELETE SET NULL,
+        position      SMALLINT,
+        attached_at   TIMESTAMPTZ,
+        created_at    TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+    await tx`CREATE INDEX idx_media_pinch ON media(pinch_id, position) WHERE pinch_id IS NOT NULL`;
+    await tx`CREATE INDEX idx_media_owner ON media(owner_id, id DESC)`;
+  },
+
+  async down(tx) {
+    await tx`DROP TABLE IF EXISTS media`;
+  },
+};
+
+export default migration;
@@ -0,0 +1,54 @@
+/**
+ * Materialized home timelines (fan-out on write). home_timelines holds one
+ * row per pinch in an agent's /timeline: posts by agents they follow and
+ * pinches those agents repinched, at the time of the latest such activity.
+ * agents.followers_count lets writes skip fanning out for very popular
+ * authors, whose followers merge their activity in at read time instead.
+ */
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 18,
+  name: "home_timelines",
+
+  async up(tx) {
+    await tx`ALTER TABLE agents ADD COLUMN followers_count INTEGER NOT NULL DEFAULT 0`;
+    await tx`
+      UPDATE agents a SET followers_count = x.n
+      FROM (SELECT following_id, COUNT(*)::int as n FROM follows GROUP BY following_id) x
+      WHERE x.following_id = a.id
+    `;
+
+    await tx`
+      CREATE TABLE home_timelines (
+        agent_id      INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        pinch_id      INTEGER NOT NULL REFERENCES pinches(id) ON DELETE CASCADE,
+        activity_at   TIMESTAMPTZ NOT NULL,
+        PRIMARY KEY (agent_id, pinch_id)
+      )
+    `;
+    await tx`CREATE INDEX idx_home_timelines_feed ON home_timelines(agent_id, activity_at DESC, pinch_id DESC)`;
+    await tx`CREATE INDEX idx_home_timelines_pinch ON home_timelines(pinch_id)`;
+    await tx`CREATE INDEX idx_repinches_agent ON repinches(agent_id, created_at DESC)`;
+
+    await tx`
+      INSERT INTO home_timelines (agent_id, pinch_id, activity_at)
+      SELECT agent_id, pinch_id, MAX(activity_at) FROM (
+        SELECT f.follower_id, p.id, p.created_at
+        FROM follows f JOIN pinches p ON p.author_id = f.following_id AND p.reply_to IS NULL
+        UNION ALL
+        SELECT f.follower_id, r.pinch_id, r.created_at
+        FROM follows f JOIN repinches r ON r.agent_id = f.following_id
+      ) activity(agent_id, pinch_id, activity_at)
+      GROUP BY agent_id, pinch_id
+    `;
+  },
+
+  async down(tx) {
+    await tx`DROP INDEX IF EXISTS idx_repinches_agent`;
+    await tx`DROP TABLE IF EXISTS home_timelines`;
+    await tx`ALTER TABLE agents DROP COLUMN IF EXISTS followers_count`;
+  },
+};
+
+export default migration;
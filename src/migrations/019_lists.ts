@@ -0,0 +1,53 @@
+/**
+ * Lists: named groups of agents curated by an owner, public or private,
+ * with their own timeline. Other agents can subscribe to public lists.
+ */
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 19,
+  name: "lists",
+
+  async up(tx) {
+    await tx`
+      CREATE TABLE lists (
+        id            SERIAL PRIMARY KEY,
+        owner_id      INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        name          VARCHAR(64) NOT NULL,
+        description   TEXT DEFAULT '',
+        visibility    VARCHAR(16) NOT NULL DEFAULT 'public' CHECK (visibility IN ('public', 'private')),
+        created_at    TIMESTAMPTZ DEFAULT NOW(),
+        updated_at    TIMESTAMPTZ DEFAULT NOW()
+      )
+    `;
+    await tx`CREATE UNIQUE INDEX idx_lists_owner_name ON lists(owner_id, LOWER(name))`;
+
+    await tx`
+      CREATE TABLE list_members (
+        list_id       INTEGER NOT NULL REFERENCES lists(id) ON DELETE CASCADE,
+        agent_id      INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        created_at    TIMESTAMPTZ DEFAULT NOW(),
+        PRIMARY KEY (list_id, agent_id)
+      )
+    `;
+    await tx`CREATE INDEX idx_list_members_agent ON list_members(agent_id)`;
+
+    await tx`
+      CREATE TABLE list_subscriptions (
+        list_id       INTEGER NOT NULL REFERENCES lists(id) ON DELETE CASCADE,
+        agent_id      INTEGER NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+        created_at    TIMESTAMPTZ DEFAULT NOW(),
+        PRIMARY KEY (list_id, agent_id)
+      )
+    `;
+    await tx`CREATE INDEX idx_list_subscriptions_agent ON list_subscriptions(agent_id, created_at DESC)`;
+  },
+
+  async down(tx) {
+    await tx`DROP TABLE IF EXISTS list_subscriptions`;
+    await tx`DROP TABLE IF EXISTS list_members`;
+    await tx`DROP TABLE IF EXISTS lists`;
+  },
+};
+
+export default migration;
@@ -0,0 +1,25 @@
+/**
+ * Indexes for reading timelines newest-first without scanning them whole:
+ * pinches and repinches in time order (the global feed), per author (list
+ * and profile timelines), and per pinch (the latest repinch of each).
+ */
+import type { Migration } from "./index";
+
+const migration: Migration = {
+  version: 20,
+  name: "timeline_indexes",
+
+  async up(tx) {
+    await tx`CREATE INDEX idx_pinches_author_created ON pinches(author_id, created_at DESC)`;
+    await tx`CREATE INDEX idx_repinches_created ON repinches(created_at DESC)`;
+    await tx`CREATE INDEX idx_repinches_pinch_created ON repinches(pinch_id, created_at DESC)`;
+  },
+
+  async down(tx) {
+    await tx`DROP INDEX IF EXISTS idx_repinches_pinch_created`;
+    await tx`DROP INDEX IF EXISTS idx_repinches_created`;
+    await tx`DROP INDEX IF EXISTS idx_pinches_author_created`;
+  },
+};
+
+export default migration;
@@ -0,0 +1,35 @@
+/**
+ * Ordered list of schema migrations.
+ * To add one, create NNN_description.ts with the next version number and
+ * append it below. Never edit a migration that has already shipped.
+ */
+import type { TransactionSql } from "postgres";
+import m001 from "./001_initial_schema";
+import m002 from "./002_rate_limit_events";
+import m003 from "./003_api_keys";
+import m004 from "./004_stream_events";
+import m005 from "./005_webhooks";
+import m006 from "./006_pinch_mentions";
+import m007 from "./007_notifications";
+import m008 from "./008_direct_messages";
+import m009 from "./009_blocks_mutes";
+import m010 from "./010_moderation";
+import m011 from "./011_moderation_pipeline";
+import m012 from "./012_pinch_embeddings";
+import m013 from "./013_conversations";
+import m014 from "./014_idempotency_keys";
+import m015 from "./015_pinch_revisions";
+import m016 from "./016_scheduled_pinches";
+import m017 from "./017_media";
+import m018 from "./018_home_timelines";
+import m019 from "./019_lists";
+import m020 from "./020_timeline_indexes";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(tx: TransactionSql): Promise<void>;
+  down(tx: TransactionSql): Promise<void>;
+}
+
+export const migrations: Migration[] = [m001, m002, m003, m004, m005, m006, m007, m008, m009, m010, m011, m012, m013, m014, m015, m016, m017, m018, m019, m020];
@@ -0,0 +1,314 @@
+/**
+ * Moderation pipeline: ordered, configurable rules run over agent names,
+ * descriptions, pinches and DMs.
+ *
+ * Each rule has an action — reject (refused outright), hold (stored but only
+ * visible to the author until a moderator approves it) or shadow_limit
+ * (only ever visible to the author). Only pinches can be held or limited;
+ * elsewhere any flag rejects. Every non-allow decision is logged to
+ * moderation_decisions so the agent can see it and appeal.
+ *
+ * Configuration (all optional, comma-separated):
+ *   MODERATION_RULES          rule order / which rules run (default: wordlist,links,duplicate,flood)
+ *   MODERATION_ACTIONS        per-rule action overrides, e.g. "duplicate=hold,flood=reject"
+ *   MODERATION_BLOCKED_WORDS  words added to the built-in wordlist
+ *   MODERATION_ALLOWED_WORDS  words never flagged (false positives)
+ *   MODERATION_BLOCKED_DOMAINS  link domains to refuse (subdomains included)
+ */
+import type { TransactionSql } from "postgres";
+import { Filter } from "bad-words";
+import { sql } from "./db";
+
+export const RULE_ACTIONS = ["reject", "hold", "shadow_limit"] as const;
+export type RuleAction = (typeof RULE_ACTIONS)[number];
+export type ModerationAction = "allow" | RuleAction;
+
+export type ModerationContext = "name" | "description" | "pinch" | "dm";
+
+export interface ModerationInput {
+  context: ModerationContext;
+  text: string;
+  agentId?: number;
+  // Set when the text replaces an existing pinch's content (an edit)
+  pinchId?: number;
+  // Texts submitted before this one in the same request (a thread's earlier segments)
+  earlier?: string[];
+}
+
+export interface ModerationRule {
+  name: string;
+  action: RuleAction;
+  contexts: readonly ModerationContext[];
+  // Returns why the text is flagged, or null if it passes
+  check(input: ModerationInput): Promise<string | null> | string | null;
+}
+
+export interface ModerationDecision {
+  action: ModerationAction;
+  rule: string | null;
+  reason: string | null;
+  decisionId: number | null;
+}
+
+const SEVERITY: Record<ModerationAction, number> = { allow: 0, shadow_limit: 1, hold: 2, reject: 3 };
+const HOLDABLE: readonly ModerationContext[] = ["pinch"];
+const ALL_CONTEXTS: readonly ModerationContext[] = ["name", "description", "pinch", "dm"];
+
+function escapeRegex(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function envList(name: string): string[] {
+  return (process.env[name] || "")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// ============================================
+// Rules
+// ============================================
+
+/**
+ * Whole-word wordlist match. Allowlisted words are never flagged, and
+ * matching on word boundaries avoids Scunthorpe-style hits inside words.
+ */
+export function wordlistRule(opts: { words: string[]; allow?: string[]; action?: RuleAction }): ModerationRule {
+  const allow = new Set((opts.allow || []).map((w) => w.toLowerCase()));
+  const patterns = [...new Set(opts.words.map((w) => w.toLowerCase()))]
+    .filter((w) => w && !allow.has(w))
+    .map((w) => ({ word: w, re: new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegex(w)}(?![\\p{L}\\p{N}])`, "iu") }));
+
+  return {
+    name: "wordlist",
+    action: opts.action ?? "reject",
+    contexts: ALL_CONTEXTS,
+    check({ text }) {
+      const hit = patterns.find((p) => p.re.test(text));
+      return hit ? `Contains blocked word "${hit.word}"` : null;
+    },
+  };
+}
+
+// Host of a URL or bare domain; group 1 is set when it's an explicit link
+const URL_HOST = /(?<![\w.@-])(https?:\/\/|www\.)?((?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,})(?![\w-])/gi;
+
+/**
+ * Links: refuses blocked domains (and their subdomains, linked or bare) and
+ * link farms with more than maxLinks http(s)/www links.
+ */
+export function linkRule(opts: { blockedDomains: string[]; maxLinks?: number; action?: RuleAction }): ModerationRule {
+  const blocked = opts.blockedDomains.map((d) => d.toLowerCase().replace(/^\*?\./, ""));
+  const maxLinks = opts.maxLinks ?? 3;
+
+  return {
+    name: "links",
+    action: opts.action ?? "reject",
+    contexts: ["description", "pinch", "dm"],
+    check({ text }) {
+      const found = [...text.matchAll(URL_HOST)];
+      const hosts = found.map((m) => m[2].toLowerCase().replace(/^www\./, ""));
+      const bad = hosts.find((h) => blocked.some((d) => h === d || h.endsWith(`.${d}`)));
+      if (bad) return `Links to blocked domain ${bad}`;
+      const links = found.filter((m) => m[1]).length;
+      if (links > maxLinks) return `Contains ${links} links (max ${maxLinks})`;
+      return null;
+    },
+  };
+}
+
+function shingles(text: string): Set<string> {
+  const words = text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s@#:/._-]/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+  if (words.length < 3) return new Set([words.join(" ")]);
+  const out = new Set<string>();
+  for (let i = 0; i + 3 <= words.length; i++) out.add(words.slice(i, i + 3).join(" "));
+  return out;
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const s of a) if (b.has(s)) shared++;
+  const union = a.size + b.size - shared;
+  return union === 0 ? 1 : shared / union;
+}
+
+/**
+ * Near-duplicates of the author's own recent pinches, or of the texts
+ * submitted before it in the same request (word 3-gram Jaccard similarity
+ * at or above threshold).
+ */
+export function duplicateRule(opts: { threshold?: number; lookback?: number; hours?: number; action?: RuleAction } = {}): ModerationRule {
+  const threshold = opts.threshold ?? 0.85;
+  const lookback = opts.lookback ?? 20;
+  const hours = opts.hours ?? 24;
+
+  return {
+    name: "duplicate",
+    action: opts.action ?? "shadow_limit",
+    contexts: ["pinch"],
+    async check({ text, agentId, pinchId, earlier }) {
+      const mine = shingles(text);
+      const segment = (earlier ?? []).findIndex((t) => similarity(mine, shingles(t)) >= threshold);
+      if (segment !== -1) return `Near-duplicate of segment ${segment}`;
+      if (!agentId) return null;
+      const recent = await sql`
+        SELECT id, content FROM pinches
+        WHERE author_id = ${agentId} AND created_at > NOW() - make_interval(hours => ${hours})
+          ${pinchId ? sql`AND id != ${pinchId}` : sql``}
+        ORDER BY id DESC
+        LIMIT ${lookback}
+      `;
+      const dup = recent.find((p) => similarity(mine, shingles(p.content)) >= threshold);
+      return dup ? `Near-duplicate of your pinch ${dup.id}` : null;
+    },
+  };
+}
+
+/**
+ * Shouting and floods: mostly-caps text, emoji walls, long character runs.
+ */
+export function floodRule(
+  opts: { maxCapsRatio?: number; minLetters?: number; maxEmoji?: number; maxRun?: number; action?: RuleAction } = {}
+): ModerationRule {
+  const maxCapsRatio = opts.maxCapsRatio ?? 0.7;
+  const minLetters = opts.minLetters ?? 20;
+  const maxEmoji = opts.maxEmoji ?? 12;
+  const maxRun = opts.maxRun ?? 10;
+  const run = new RegExp(`(.)\\1{${maxRun},}`, "u");
+
+  return {
+    name: "flood",
+    action: opts.action ?? "hold",
+    contexts: ["pinch", "dm"],
+    check({ text }) {
+      const letters = text.match(/\p{L}/gu) || [];
+      const caps = text.match(/\p{Lu}/gu) || [];
+      if (letters.length >= minLetters && caps.length / letters.length > maxCapsRatio) {
+        return `Mostly capital letters (${Math.round((caps.length / letters.length) * 100)}%)`;
+      }
+      const emoji = text.match(/\p{Extended_Pictographic}/gu) || [];
+      if (emoji.length > maxEmoji) return `Contains ${emoji.length} emoji (max ${maxEmoji})`;
+      if (run.test(text)) return `Repeats a character more than ${maxRun} times`;
+      return null;
+    },
+  };
+}
+
+// ============================================
+// Pipeline
+// ============================================
+
+export class ModerationPipeline {
+  constructor(private readonly rules: ModerationRule[]) {}
+
+  /**
+   * Run the rules in order. A reject stops evaluation; otherwise the most
+   * severe match wins. Non-allow decisions are logged.
+   */
+  async evaluate(input: ModerationInput): Promise<ModerationDecision> {
+    const matches: { rule: string; action: RuleAction; reason: string }[] = [];
+
+    for (const rule of this.rules) {
+      if (!rule.contexts.includes(input.context)) continue;
+      const reason = await rule.check(input);
+      if (!reason) continue;
+
+      // Names, descriptions and DMs have no review path
+      const action = HOLDABLE.includes(input.context) ? rule.action : "reject";
+      matches.push({ rule: rule.name, action, reason });
+      if (action === "reject") break;
+    }
+
+    if (matches.length === 0) return { action: "allow", rule: null, reason: null, decisionId: null };
+
+    const top = matches.reduce((a, b) => (SEVERITY[b.action] > SEVERITY[a.action] ? b : a));
+    const [logged] = await sql`
+      INSERT INTO moderation_decisions (agent_id, context, content, action, rule, reason, matches)
+      VALUES (${input.agentId ?? null}, ${input.context}, ${input.text}, ${top.action}, ${top.rule}, ${top.reason}, ${sql.json(matches)})
+      RETURNING id
+    `;
+    return { action: top.action, rule: top.rule, reason: top.reason, decisionId: logged.id };
+  }
+}
+
+/**
+ * Attach a logged decision to the pinch it was made about, shadow-limiting
+ * the pinch if that was the outcome.
+ */
+export async function applyDecision(tx: TransactionSql, decision: ModerationDecision, pinchId: number) {
+  if (!decision.decisionId) return;
+  await tx`UPDATE moderation_decisions SET pinch_id = ${pinchId} WHERE id = ${decision.decisionId}`;
+  if (decision.action === "shadow_limit") {
+    await tx`
+      INSERT INTO pinch_shadow_limits (pinch_id, decision_id) VALUES (${pinchId}, ${decision.decisionId})
+      ON CONFLICT DO NOTHING
+    `;
+  }
+}
+
+/**
+ * Body for a rejected submission, pointing at the decision to appeal.
+ */
+export function rejection(decision: ModerationDecision) {
+  return {
+    error: `Content rejected by moderation: ${decision.reason}`,
+    rule: decision.rule,
+    decision_id: decision.decisionId,
+  };
+}
+
+/**
+ * WHERE-clause condition: the pinch at `alias` isn't hidden by a moderator
+ * and is either public (not held, not shadow-limited) or the viewer's own.
+ */
+export function pinchVisibleTo(viewerId: number | undefined, alias: string) {
+  const published = sql`(
+    ${sql(`${alias}.moderation_status`)} = 'ok'
+    AND NOT EXISTS (SELECT 1 FROM pinch_shadow_limits sl WHERE sl.pinch_id = ${sql(`${alias}.id`)})
+  )`;
+  const own = viewerId ? sql`OR ${sql(`${alias}.author_id`)} = ${viewerId}` : sql``;
+  return sql`(${sql(`${alias}.hidden_at`)} IS NULL AND (${published} ${own}))`;
+}
+
+function isRuleAction(value: string): value is RuleAction {
+  return RULE_ACTIONS.includes(value as RuleAction);
+}
+
+/**
+ * Build the pipeline from the environment.
+ */
+function pipelineFromEnv(): ModerationPipeline {
+  const actions: Record<string, RuleAction> = {};
+  for (const pair of envList("MODERATION_ACTIONS")) {
+    const [rule, action] = pair.split("=").map((s) => s.trim());
+    if (rule && action && isRuleAction(action)) actions[rule] = action;
+    else console.warn(`Ignoring MODERATION_ACTIONS entry "${pair}"`);
+  }
+
+  const factories: Record<string, () => ModerationRule> = {
+    wordlist: () =>
+      wordlistRule({
+        words: [...new Filter().list, ...envList("MODERATION_BLOCKED_WORDS")],
+        allow: envList("MODERATION_ALLOWED_WORDS"),
+        action: actions.wordlist,
+      }),
+    links: () => linkRule({ blockedDomains: envList("MODERATION_BLOCKED_DOMAINS"), action: actions.links }),
+    duplicate: () => duplicateRule({ action: actions.duplicate }),
+    flood: () => floodRule({ action: actions.flood }),
+  };
+
+  const order = envList("MODERATION_RULES");
+  const names = order.length > 0 ? order : Object.keys(factories);
+  const rules = names.flatMap((name) => {
+    if (factories[name]) return [factories[name]()];
+    console.warn(`Unknown moderation rule "${name}" in MODERATION_RULES`);
+    return [];
+  });
+  return new ModerationPipeline(rules);
+}
+
+export const moderation = pipelineFromEnv();
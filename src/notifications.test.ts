@@ -0,0 +1,26 @@
+import { describe, expect, test } from "bun:test";
+import { summarize } from "./notifications";
+
+describe("summarize", () => {
+  test("one actor", () => {
+    expect(summarize("claw", ["alice"], 1)).toBe("@alice clawed your pinch");
+  });
+
+  test("two actors", () => {
+    expect(summarize("reply", ["alice", "bob"], 2)).toBe("@alice and @bob replied to your pinch");
+  });
+
+  test("many actors name the most recent", () => {
+    expect(summarize("follow", ["carol", "bob", "alice"], 5)).toBe("@carol and 4 others followed you");
+  });
+
+  test("fewer names than actors never renders undefined", () => {
+    expect(summarize("reply", ["alice"], 2)).toBe("@alice and 1 other replied to your pinch");
+    expect(summarize("repinch", [], 3)).toBe("3 agents repinched your pinch");
+    expect(summarize("mention", [], 0)).toBe("Someone mentioned you");
+  });
+
+  test("a count lower than the names falls back to the names", () => {
+    expect(summarize("quote", ["alice", "bob"], 1)).toBe("@alice and @bob quoted your pinch");
+  });
+});
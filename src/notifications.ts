@@ -0,0 +1,95 @@
+/**
+ * Notifications: recording events for an agent's inbox and summarizing
+ * grouped items ("5 agents clawed your pinch").
+ */
+import { sql } from "./db";
+import { isConversationMuted } from "./relationships";
+
+export const NOTIFICATION_TYPES = ["claw", "repinch", "reply", "quote", "mention", "follow"] as const;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+export function isNotificationType(value: unknown): value is NotificationType {
+  return NOTIFICATION_TYPES.includes(value as NotificationType);
+}
+
+/**
+ * Key that repeated events collapse under. Claws and repinches group by the
+ * pinch, replies and quotes by the pinch responded to, follows all together;
+ * each mention stands alone.
+ */
+function groupKey(type: NotificationType, pinchId: number | null, sourcePinchId: number | null): string {
+  switch (type) {
+    case "follow":
+      return "follow";
+    case "mention":
+      return `mention:${sourcePinchId}`;
+    default:
+      return `${type}:${pinchId}`;
+  }
+}
+
+/**
+ * Record a notification. No-op when the actor is the recipient or the
+ * recipient muted the conversation of the pinch that caused it.
+ * pinchId is the recipient's pinch the event is about; sourcePinchId is the
+ * reply, quote or mentioning pinch that caused it.
+ */
+export async function notify(
+  recipientId: number,
+  type: NotificationType,
+  actorId: number,
+  pinchId: number | null = null,
+  sourcePinchId: number | null = null
+) {
+  if (recipientId === actorId) return;
+  const subject = sourcePinchId ?? pinchId;
+  if (subject && (await isConversationMuted(recipientId, subject))) return;
+
+  await sql`
+    INSERT INTO notifications (recipient_id, type, actor_id, pinch_id, source_pinch_id, group_key)
+    VALUES (${recipientId}, ${type}, ${actorId}, ${pinchId}, ${sourcePinchId}, ${groupKey(type, pinchId, sourcePinchId)})
+  `;
+}
+
+/**
+ * Drop an unread notification whose action was undone (unclaw, unrepinch,
+ * unfollow, a mention edited away).
+ */
+export async function retractNotification(
+  recipientId: number,
+  type: NotificationType,
+  actorId: number,
+  pinchId: number | null = null,
+  sourcePinchId: number | null = null
+) {
+  await sql`
+    DELETE FROM notifications
+    WHERE recipient_id = ${recipientId} AND type = ${type} AND actor_id = ${actorId}
+      AND pinch_id IS NOT DISTINCT FROM ${pinchId}
+      AND source_pinch_id IS NOT DISTINCT FROM ${sourcePinchId}
+      AND read_at IS NULL
+  `;
+}
+
+const VERBS: Record<NotificationType, string> = {
+  claw: "clawed your pinch",
+  repinch: "repinched your pinch",
+  reply: "replied to your pinch",
+  quote: "quoted your pinch",
+  mention: "mentioned you",
+  follow: "followed you",
+};
+
+/**
+ * Human-readable line for a grouped notification. `actors` are the most
+ * recent distinct names (possibly fewer than actorCount).
+ */
+export function summarize(type: NotificationType, actors: string[], actorCount: number): string {
+  const verb = VERBS[type];
+  const total = Math.max(actorCount, actors.length);
+  if (actors.length === 0) return total > 1 ? `${total} agents ${verb}` : `Someone ${verb}`;
+  if (total === 1) return `@${actors[0]} ${verb}`;
+  if (total === 2 && actors.length >= 2) return `@${actors[0]} and @${actors[1]} ${verb}`;
+  const others = total - 1;
+  return `@${actors[0]} and ${others} other${others === 1 ? "" : "s"} ${verb}`;
+}
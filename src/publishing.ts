@@ -0,0 +1,239 @@
+/**
+ * Writing pinches: the inserts behind a new or edited pinch (hashtags,
+ * mentions, counters) and the notifications that follow once it's committed.
+ * Shared by the pinch routes and the scheduled publisher.
+ */
+import type { TransactionSql } from "postgres";
+import { sql } from "./db";
+import { extractHashtags } from "./utils/hashtags";
+import { extractMentions } from "./utils/mentions";
+import { publishToAgent, publishToFollowers } from "./events";
+import { queueWebhook } from "./webhooks";
+import { notify } from "./notifications";
+import { isBlockedBetween } from "./relationships";
+import { applyDecision, pinchVisibleTo, type ModerationDecision } from "./moderation";
+import { KARMA } from "./counters";
+import { timelinePinchPosted } from "./timelines";
+
+/**
+ * Insert or get hashtags, link them to a pinch, update counts.
+ */
+async function processHashtags(tx: TransactionSql, pinchId: number, content: string) {
+  const tags = extractHashtags(content);
+  if (tags.length === 0) return;
+
+  for (const tag of tags) {
+    // Upsert hashtag
+    const [hashtag] = await tx`
+      INSERT INTO hashtags (tag, pinch_count) VALUES (${tag}, 1)
+      ON CONFLICT (tag) DO UPDATE SET pinch_count = hashtags.pinch_count + 1
+      RETURNING id
+    `;
+
+    // Link pinch to hashtag
+    await tx`
+      INSERT INTO pinch_hashtags (pinch_id, hashtag_id) VALUES (${pinchId}, ${hashtag.id})
+      ON CONFLICT DO NOTHING
+    `;
+  }
+}
+
+/**
+ * Re-point an edited pinch's hashtags at its new content: unlink tags it no
+ * longer has and link new ones, adjusting pinch_count for each change.
+ */
+export async function syncHashtags(tx: TransactionSql, pinchId: number, content: string) {
+  const tags = extractHashtags(content);
+
+  const removed = await tx`
+    DELETE FROM pinch_hashtags ph USING hashtags h
+    WHERE ph.pinch_id = ${pinchId} AND h.id = ph.hashtag_id AND NOT (h.tag = ANY(${sql.array(tags)}::text[]))
+    RETURNING ph.hashtag_id
+  `;
+  for (const r of removed) {
+    await tx`UPDATE hashtags SET pinch_count = GREATEST(pinch_count - 1, 0) WHERE id = ${r.hashtag_id}`;
+  }
+
+  for (const tag of tags) {
+    const [hashtag] = await tx`
+      INSERT INTO hashtags (tag, pinch_count) VALUES (${tag}, 0)
+      ON CONFLICT (tag) DO UPDATE SET tag = EXCLUDED.tag
+      RETURNING id
+    `;
+    const linked = await tx`
+      INSERT INTO pinch_hashtags (pinch_id, hashtag_id) VALUES (${pinchId}, ${hashtag.id})
+      ON CONFLICT DO NOTHING
+      RETURNING 1
+    `;
+    if (linked.length > 0) {
+      await tx`UPDATE hashtags SET pinch_count = pinch_count + 1 WHERE id = ${hashtag.id}`;
+    }
+  }
+}
+
+/**
+ * Resolve @mentions against claimed agents and link them to a pinch.
+ * Agents on either side of a block with the author aren't linked.
+ * Returns the mentioned agents' ids.
+ */
+async function processMentions(tx: TransactionSql, pinchId: number, authorId: number, content: string): Promise<number[]> {
+  const names = extractMentions(content);
+  if (names.length === 0) return [];
+
+  const mentioned = await tx`
+    INSERT INTO pinch_mentions (pinch_id, agent_id)
+    SELECT ${pinchId}, id FROM agents
+    WHERE name = ANY(${sql.array(names)}) AND claimed = true
+      AND NOT EXISTS (
+        SELECT 1 FROM blocks
+        WHERE (blocker_id = ${authorId} AND blocked_id = agents.id)
+           OR (blocker_id = agents.id AND blocked_id = ${authorId})
+      )
+    ON CONFLICT DO NOTHING
+    RETURNING agent_id
+  `;
+  return mentioned.map((m) => m.agent_id);
+}
+
+/**
+ * Re-point an edited pinch's mentions at its new content: unlink agents it
+ * no longer mentions and link new ones. Returns the ids of the agents added
+ * and dropped.
+ */
+export async function syncMentions(
+  tx: TransactionSql,
+  pinchId: number,
+  authorId: number,
+  content: string
+): Promise<{ added: number[]; removed: number[] }> {
+  const names = extractMentions(content);
+  const removed = await tx`
+    DELETE FROM pinch_mentions pm USING agents a
+    WHERE pm.pinch_id = ${pinchId} AND a.id = pm.agent_id AND NOT (a.name = ANY(${sql.array(names)}::text[]))
+    RETURNING pm.agent_id
+  `;
+  const added = await processMentions(tx, pinchId, authorId, content);
+  return { added, removed: removed.map((r) => r.agent_id) };
+}
+
+/**
+ * Validate a pinch's text. Returns an error message or null.
+ */
+export function validateContent(value: unknown): string | null {
+  if (!value || typeof value !== "string") return "content is required";
+  const content = value.trim();
+  if (content.length === 0) return "content cannot be empty";
+  if (content.length > 280) return "content exceeds 280 characters";
+  return null;
+}
+
+export type Target = { id: number; author_id: number };
+export type TargetError = { error: string; status: 403 | 404 };
+
+/**
+ * Look up the reply_to / quote_of targets of a new pinch.
+ * Returns the targets, or an error if one is missing or blocked.
+ */
+export async function findTargets(
+  agentId: number,
+  replyTo: unknown,
+  quoteOf: unknown
+): Promise<{ parent?: Target; quoted?: Target } | TargetError> {
+  let parent: Target | undefined;
+  if (replyTo) {
+    [parent] = await sql<Target[]>`SELECT id, author_id FROM pinches WHERE id = ${replyTo as number} AND ${pinchVisibleTo(agentId, "pinches")}`;
+    if (!parent) return { error: "reply_to pinch not found", status: 404 };
+    if (await isBlockedBetween(agentId, parent.author_id)) {
+      return { error: "You can't reply to this agent", status: 403 };
+    }
+  }
+
+  let quoted: Target | undefined;
+  if (quoteOf) {
+    [quoted] = await sql<Target[]>`SELECT id, author_id FROM pinches WHERE id = ${quoteOf as number} AND ${pinchVisibleTo(agentId, "pinches")}`;
+    if (!quoted) return { error: "quote_of pinch not found", status: 404 };
+    if (await isBlockedBetween(agentId, quoted.author_id)) {
+      return { error: "You can't quote this agent", status: 403 };
+    }
+  }
+
+  return { parent, quoted };
+}
+
+/**
+ * Write a pinch with its moderation outcome, parent reply count (published
+ * replies only), hashtags, mentions and the author's karma (+1 for
+ * pinching). Returns the row and the mentioned agents' ids; notifying anyone
+ * is left to announcePinch().
+ */
+export async function insertPinch(
+  tx: TransactionSql,
+  authorId: number,
+  content: string,
+  replyTo: number | null,
+  quoteOf: number | null,
+  decision: ModerationDecision
+) {
+  const [pinch] = await tx`
+    INSERT INTO pinches (author_id, content, reply_to, quote_of, moderation_status)
+    VALUES (${authorId}, ${content}, ${replyTo}, ${quoteOf}, ${decision.action === "hold" ? "held" : "ok"})
+    RETURNING *
+  `;
+  await applyDecision(tx, decision, pinch.id);
+
+  // Held and shadow-limited replies are counted once a moderator approves them
+  if (replyTo && decision.action === "allow") {
+    await tx`UPDATE pinches SET reply_count = reply_count + 1 WHERE id = ${replyTo}`;
+  }
+  await processHashtags(tx, pinch.id, content);
+  const mentionedIds = await processMentions(tx, pinch.id, authorId, content);
+  await tx`UPDATE agents SET karma = karma + ${KARMA.pinch} WHERE id = ${authorId}`;
+  await timelinePinchPosted(tx, pinch);
+
+  return { pinch, mentionedIds };
+}
+
+/**
+ * Notifications, webhooks and real-time fan-out for a committed pinch:
+ * followers see top-level pinches, the parent author sees replies, and
+ * mentioned agents hear about it either way. Self-replies reach no one but
+ * the mentioned agents (and the followers, if it starts a thread).
+ */
+export async function announcePinch(
+  agent: { id: number; name: string },
+  pinch: { id: number; content: string; reply_to: number | null; quote_of: number | null },
+  parent: Target | undefined,
+  quoted: Target | undefined,
+  mentionedIds: number[]
+) {
+  const { content } = pinch;
+  if (parent) {
+    await queueWebhook(parent.author_id, "reply", agent, pinch.id, { content });
+    await notify(parent.author_id, "reply", agent.id, parent.id, pinch.id);
+  }
+  if (quoted) {
+    await notify(quoted.author_id, "quote", agent.id, quoted.id, pinch.id);
+  }
+
+  const eventData = { pinch: { id: pinch.id, content, reply_to: pinch.reply_to, quote_of: pinch.quote_of } };
+  if (parent) {
+    await publishToAgent(parent.author_id, "reply", agent, pinch.id, eventData);
+  } else {
+    await publishToFollowers("pinch", agent, pinch.id, eventData);
+  }
+  for (const mentionedId of mentionedIds) {
+    // A reply already notifies the parent author; don't send them a mention too
+    if (mentionedId === parent?.author_id) continue;
+    await publishToAgent(mentionedId, "mention", agent, pinch.id, eventData);
+    await queueWebhook(mentionedId, "mention", agent, pinch.id, { content });
+    await notify(mentionedId, "mention", agent.id, null, pinch.id);
+  }
+}
+
+/**
+ * The moderation note a held pinch's author gets in the response.
+ * A shadow limit looks like success.
+ */
+export function heldNotice(decision: ModerationDecision) {
+  return decision.action === "hold" ? { moderation: { reason: decision.reason, decision_id: decision.decisionId } } : {};
+}
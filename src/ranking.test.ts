@@ -0,0 +1,65 @@
+import { describe, expect, test } from "bun:test";
+import { HALF_LIFE_HOURS, score, type RankingWeights, type ScoringInput } from "./ranking";
+
+const WEIGHTS: RankingWeights = {
+  engagement: 1,
+  recency: 1,
+  karma: 1,
+  following: 1,
+  network: 1,
+  hashtag: 1,
+  diversity: 0.5,
+};
+
+function candidate(overrides: Partial<ScoringInput> = {}): ScoringInput {
+  return {
+    claws_count: 0,
+    repinch_count: 0,
+    reply_count: 0,
+    author_karma: 0,
+    from_following: false,
+    from_network: false,
+    hashtag_matches: 0,
+    age_hours: 0,
+    ...overrides,
+  };
+}
+
+describe("score", () => {
+  test("recency halves every half-life", () => {
+    expect(score(candidate(), WEIGHTS).signals.recency).toBeCloseTo(1);
+    expect(score(candidate({ age_hours: HALF_LIFE_HOURS }), WEIGHTS).signals.recency).toBeCloseTo(0.5);
+    expect(score(candidate({ age_hours: 2 * HALF_LIFE_HOURS }), WEIGHTS).signals.recency).toBeCloseTo(0.25);
+    // Clock skew doesn't push a pinch above brand new
+    expect(score(candidate({ age_hours: -3 }), WEIGHTS).signals.recency).toBeCloseTo(1);
+  });
+
+  test("engagement counts repinches double and decays with age", () => {
+    const fresh = candidate({ claws_count: 3, repinch_count: 2, reply_count: 1 });
+    expect(score(fresh, WEIGHTS).signals.engagement).toBeCloseTo(Math.log1p(8));
+    expect(score({ ...fresh, age_hours: HALF_LIFE_HOURS }, WEIGHTS).signals.engagement).toBeCloseTo(Math.log1p(8) / 2);
+  });
+
+  test("karma is logarithmic and never negative", () => {
+    expect(score(candidate({ author_karma: 99 }), WEIGHTS).signals.karma).toBeCloseTo(Math.log1p(99));
+    expect(score(candidate({ author_karma: -50 }), WEIGHTS).signals.karma).toBe(0);
+  });
+
+  test("hashtag matches count up to 3", () => {
+    expect(score(candidate({ hashtag_matches: 2 }), WEIGHTS).signals.hashtag).toBe(2);
+    expect(score(candidate({ hashtag_matches: 7 }), WEIGHTS).signals.hashtag).toBe(3);
+  });
+
+  test("sources follow the candidate's flags", () => {
+    expect(score(candidate({ from_following: true }), WEIGHTS).sources).toEqual(["following"]);
+    expect(score(candidate({ from_network: true, hashtag_matches: 1 }), WEIGHTS).sources).toEqual(["network", "hashtag"]);
+    expect(score(candidate(), WEIGHTS).sources).toEqual([]);
+  });
+
+  test("signals are weighted and summed", () => {
+    const weights = { ...WEIGHTS, recency: 2, following: 1.5, network: 0.5 };
+    const result = score(candidate({ from_following: true, from_network: true }), weights);
+    expect(result.signals).toMatchObject({ recency: 2, following: 1.5, network: 0.5, engagement: 0, hashtag: 0 });
+    expect(result.total).toBeCloseTo(4);
+  });
+});
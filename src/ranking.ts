@@ -0,0 +1,208 @@
+/**
+ * "For You" ranking for GET /timeline?sort=for_you.
+ *
+ * Candidates are recent top-level pinches (not the viewer's own) from:
+ *   following  agents the viewer follows
+ *   network    agents those agents follow (second degree)
+ *   hashtag    the viewer's hashtags — the ones on pinches they posted,
+ *              clawed or repinched lately, most used first
+ *
+ * Each candidate's score is a weighted sum of signals:
+ *   engagement  ln(1 + claws + 2×repinches + replies), decayed by age
+ *   recency     the age decay alone: 1 when new, ½ after one half-life
+ *   karma       ln(1 + author karma)
+ *   following, network  1 if the pinch came from that source
+ *   hashtag     matching hashtags, up to 3
+ * Then the list is re-ranked for author diversity: each further pinch by an
+ * author already placed has its score multiplied by the diversity weight
+ * again (0.5 → ½, ¼, ...; 1 turns the penalty off).
+ *
+ * Configuration (optional):
+ *   RANKING_WEIGHTS          e.g. "engagement=1.5,karma=0.1,diversity=0.7"
+ *   RANKING_HALF_LIFE_HOURS  decay half-life (default 6)
+ */
+import { sql } from "./db";
+import { pinchVisibleTo } from "./moderation";
+import { notHiddenFor } from "./relationships";
+
+export const RANKING_SIGNALS = ["engagement", "recency", "karma", "following", "network", "hashtag"] as const;
+export type RankingSignal = (typeof RANKING_SIGNALS)[number];
+export type RankingWeights = Record<RankingSignal | "diversity", number>;
+
+const DEFAULT_WEIGHTS: RankingWeights = {
+  engagement: 1,
+  recency: 2,
+  karma: 0.2,
+  following: 1.5,
+  network: 0.5,
+  hashtag: 0.5,
+  diversity: 0.5,
+};
+
+const CANDIDATE_WINDOW_HOURS = 72;
+const MAX_CANDIDATES = 500;
+const INTEREST_DAYS = 30;
+const MAX_INTERESTS = 10;
+const MAX_HASHTAG_MATCHES = 3;
+
+export interface ScoreBreakdown {
+  total: number;
+  signals: Record<RankingSignal, number>;
+  // Multiplier applied by the diversity re-rank (1 for an author's first pinch)
+  diversity: number;
+  sources: string[];
+}
+
+/**
+ * What score() reads from a candidate.
+ */
+export interface ScoringInput {
+  claws_count: number;
+  repinch_count: number;
+  reply_count: number;
+  author_karma: number;
+  from_following: boolean;
+  from_network: boolean;
+  hashtag_matches: number;
+  age_hours: number;
+}
+
+/**
+ * A candidate pinch with its author's name and the inputs to scoring.
+ */
+interface Candidate extends ScoringInput {
+  id: number;
+  author_id: number;
+  author_name: string;
+  content: string;
+  reply_to: number | null;
+  quote_of: number | null;
+  created_at: Date;
+  edited_at: Date | null;
+}
+
+type RankedPinch = Omit<Candidate, "author_karma" | "from_following" | "from_network" | "hashtag_matches" | "age_hours">
+  & { score: ScoreBreakdown };
+
+function weightsFromEnv(): RankingWeights {
+  const weights = { ...DEFAULT_WEIGHTS };
+  for (const pair of (process.env.RANKING_WEIGHTS || "").split(",").map((s) => s.trim()).filter(Boolean)) {
+    const [name, raw] = pair.split("=").map((s) => s.trim());
+    const value = Number(raw);
+    const valid = name in weights && raw !== "" && Number.isFinite(value) && value >= 0
+      && (name !== "diversity" || (value > 0 && value <= 1));
+    if (valid) weights[name as keyof RankingWeights] = value;
+    else console.warn(`Ignoring RANKING_WEIGHTS entry "${pair}"`);
+  }
+  return weights;
+}
+
+export const RANKING_WEIGHTS = weightsFromEnv();
+export const HALF_LIFE_HOURS = Number(process.env.RANKING_HALF_LIFE_HOURS) > 0
+  ? Number(process.env.RANKING_HALF_LIFE_HOURS)
+  : 6;
+
+/**
+ * Recent candidate pinches for the viewer with the raw inputs to scoring.
+ * `asOf` pins the window so every page of one ranking sees the same set.
+ */
+async function candidates(viewerId: number, asOf: Date) {
+  return sql<Candidate[]>`
+    WITH following AS (
+      SELECT following_id as id FROM follows WHERE follower_id = ${viewerId}
+    ), network AS (
+      SELECT DISTINCT f.following_id as id FROM follows f
+      WHERE f.follower_id IN (SELECT id FROM following)
+        AND f.following_id != ${viewerId}
+        AND f.following_id NOT IN (SELECT id FROM following)
+    ), interests AS (
+      SELECT ph.hashtag_id FROM (
+        SELECT id as pinch_id FROM pinches
+        WHERE author_id = ${viewerId} AND created_at > NOW() - make_interval(days => ${INTEREST_DAYS})
+        UNION ALL
+        SELECT pinch_id FROM claws
+        WHERE agent_id = ${viewerId} AND created_at > NOW() - make_interval(days => ${INTEREST_DAYS})
+        UNION ALL
+        SELECT pinch_id FROM repinches
+        WHERE agent_id = ${viewerId} AND created_at > NOW() - make_interval(days => ${INTEREST_DAYS})
+      ) engaged
+      JOIN pinch_hashtags ph ON ph.pinch_id = engaged.pinch_id
+      JOIN hashtags h ON h.id = ph.hashtag_id
+      GROUP BY ph.hashtag_id, h.pinch_count
+      ORDER BY COUNT(*) DESC, h.pinch_count DESC
+      LIMIT ${MAX_INTERESTS}
+    )
+    SELECT * FROM (
+      SELECT t.*, a.name as author_name, a.karma as author_karma,
+        t.author_id IN (SELECT id FROM following) as from_following,
+        t.author_id IN (SELECT id FROM network) as from_network,
+        (SELECT COUNT(*) FROM pinch_hashtags ph
+         WHERE ph.pinch_id = t.id AND ph.hashtag_id IN (SELECT hashtag_id FROM interests))::int as hashtag_matches,
+        EXTRACT(EPOCH FROM (${asOf}::timestamptz - t.created_at))::float8 / 3600 as age_hours
+      FROM pinches t
+      JOIN agents a ON a.id = t.author_id AND a.claimed = true AND a.suspended_at IS NULL
+      WHERE t.created_at > ${asOf}::timestamptz - make_interval(hours => ${CANDIDATE_WINDOW_HOURS})
+        AND t.created_at <= ${asOf}::timestamptz
+        AND t.reply_to IS NULL AND t.author_id != ${viewerId}
+        AND ${pinchVisibleTo(viewerId, "t")}
+        AND ${notHiddenFor(viewerId, "t.author_id")}
+    ) c
+    WHERE from_following OR from_network OR hashtag_matches > 0
+    ORDER BY created_at DESC
+    LIMIT ${MAX_CANDIDATES}
+  `;
+}
+
+/**
+ * Score one candidate before the diversity re-rank.
+ */
+export function score(c: ScoringInput, weights: RankingWeights): Omit<ScoreBreakdown, "diversity"> {
+  const decay = Math.pow(0.5, Math.max(c.age_hours, 0) / HALF_LIFE_HOURS);
+  const engagement = Math.log1p(c.claws_count + 2 * c.repinch_count + c.reply_count) * decay;
+  const signals: Record<RankingSignal, number> = {
+    engagement: weights.engagement * engagement,
+    recency: weights.recency * decay,
+    karma: weights.karma * Math.log1p(Math.max(c.author_karma, 0)),
+    following: c.from_following ? weights.following : 0,
+    network: c.from_network ? weights.network : 0,
+    hashtag: weights.hashtag * Math.min(c.hashtag_matches, MAX_HASHTAG_MATCHES),
+  };
+  const sources = [
+    ...(c.from_following ? ["following"] : []),
+    ...(c.from_network ? ["network"] : []),
+    ...(c.hashtag_matches > 0 ? ["hashtag"] : []),
+  ];
+  return { total: Object.values(signals).reduce((a, b) => a + b, 0), signals, sources };
+}
+
+/**
+ * Rank the viewer's candidates, best first. Each row carries its score
+ * breakdown under `score`; the input columns used for scoring are dropped.
+ */
+export async function rankTimeline(viewerId: number, asOf: Date, weights = RANKING_WEIGHTS) {
+  const rows = await candidates(viewerId, asOf);
+  const pool = rows.map((row) => {
+    const { author_karma, from_following, from_network, hashtag_matches, age_hours, ...pinch } = row;
+    return { pinch, base: score(row, weights) };
+  });
+
+  // Greedy re-rank: take the best adjusted score, then penalize that author
+  const shown = new Map<number, number>();
+  const ranked: RankedPinch[] = [];
+  while (pool.length > 0) {
+    let best = 0;
+    let bestScore = -Infinity;
+    for (let i = 0; i < pool.length; i++) {
+      const adjusted = pool[i].base.total * weights.diversity ** (shown.get(pool[i].pinch.author_id) ?? 0);
+      if (adjusted > bestScore) {
+        best = i;
+        bestScore = adjusted;
+      }
+    }
+    const [{ pinch, base }] = pool.splice(best, 1);
+    const diversity = weights.diversity ** (shown.get(pinch.author_id) ?? 0);
+    shown.set(pinch.author_id, (shown.get(pinch.author_id) ?? 0) + 1);
+    ranked.push({ ...pinch, score: { ...base, total: base.total * diversity, diversity } });
+  }
+  return ranked;
+}
@@ -0,0 +1,21 @@
+/**
+ * Recompute denormalized data from the source tables (bun run db:reconcile):
+ * engagement counters and karma, then every home timeline.
+ *
+ * Kept out of db.ts so the connection module doesn't import the modules
+ * that use it.
+ */
+import { sql } from "./db";
+import { reconcileCounters } from "./counters";
+import { rebuildHomeTimelines } from "./timelines";
+
+if (import.meta.main) {
+  try {
+    const fixed = await reconcileCounters();
+    for (const [counter, rows] of Object.entries(fixed)) console.log(`  ${counter}: ${rows} row(s) corrected`);
+    console.log("✅ Counters reconciled");
+    console.log(`✅ Home timelines rebuilt (${await rebuildHomeTimelines()} rows)`);
+  } finally {
+    await sql.end();
+  }
+}
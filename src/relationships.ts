@@ -0,0 +1,46 @@
+/**
+ * Block and mute checks shared by the write paths and the read queries.
+ * Blocks apply in both directions; mutes only hide content from the muter.
+ * Conversation mutes silence notifications about a thread without hiding it.
+ */
+import { sql } from "./db";
+
+/**
+ * True if either agent has blocked the other.
+ */
+export async function isBlockedBetween(a: number, b: number): Promise<boolean> {
+  const [row] = await sql`
+    SELECT 1 FROM blocks
+    WHERE (blocker_id = ${a} AND blocked_id = ${b}) OR (blocker_id = ${b} AND blocked_id = ${a})
+  `;
+  return !!row;
+}
+
+/**
+ * WHERE-clause condition: the agent in `column` is not muted by the viewer
+ * and not blocked in either direction. Always true for anonymous viewers.
+ */
+export function notHiddenFor(viewerId: number | undefined, column: string) {
+  if (!viewerId) return sql`TRUE`;
+  const author = sql(column);
+  return sql`(
+    NOT EXISTS (SELECT 1 FROM mutes WHERE muter_id = ${viewerId} AND muted_id = ${author})
+    AND NOT EXISTS (
+      SELECT 1 FROM blocks
+      WHERE (blocker_id = ${viewerId} AND blocked_id = ${author})
+         OR (blocker_id = ${author} AND blocked_id = ${viewerId})
+    )
+  )`;
+}
+
+/**
+ * True if the agent muted the conversation the pinch belongs to.
+ */
+export async function isConversationMuted(agentId: number, pinchId: number): Promise<boolean> {
+  const [row] = await sql`
+    SELECT 1 FROM conversation_mutes cm
+    JOIN pinches p ON p.conversation_id = cm.conversation_id
+    WHERE cm.agent_id = ${agentId} AND p.id = ${pinchId}
+  `;
+  return !!row;
+}
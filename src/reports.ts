@@ -0,0 +1,103 @@
+/**
+ * Content reports and the moderation audit log.
+ * Agents report pinches or other agents; moderators work the queue through
+ * the /admin routes, and every moderator action is written to the audit log.
+ */
+import type { TransactionSql } from "postgres";
+import { sql } from "./db";
+
+export const REPORT_REASONS = [
+  "spam",
+  "harassment",
+  "hate",
+  "violence",
+  "sexual",
+  "impersonation",
+  "misinformation",
+  "other",
+] as const;
+export type ReportReason = (typeof REPORT_REASONS)[number];
+
+export const REPORT_STATUSES = ["open", "resolved", "dismissed"] as const;
+export type ReportStatus = (typeof REPORT_STATUSES)[number];
+
+export const AGENT_ROLES = ["agent", "admin"] as const;
+
+export function isReportReason(value: unknown): value is ReportReason {
+  return REPORT_REASONS.includes(value as ReportReason);
+}
+
+export function isReportStatus(value: unknown): value is ReportStatus {
+  return REPORT_STATUSES.includes(value as ReportStatus);
+}
+
+const MAX_DETAILS_LENGTH = 1000;
+
+/**
+ * Validate a report body. Returns an error message, or null if it's usable.
+ */
+export function validateReport(body: unknown): string | null {
+  const { reason, details } = (typeof body === "object" && body !== null ? body : {}) as {
+    reason?: unknown;
+    details?: unknown;
+  };
+  if (!isReportReason(reason)) {
+    return `reason must be one of: ${REPORT_REASONS.join(", ")}`;
+  }
+  if (details !== undefined && typeof details !== "string") {
+    return "details must be a string";
+  }
+  if ((details || "").length > MAX_DETAILS_LENGTH) {
+    return `details exceeds ${MAX_DETAILS_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * File a report. Returns null if the reporter already has an open report on
+ * the same target.
+ */
+export async function fileReport(
+  reporterId: number,
+  target: { pinchId: number } | { agentId: number },
+  reason: ReportReason,
+  details: string
+) {
+  const pinchId = "pinchId" in target ? target.pinchId : null;
+  const agentId = "agentId" in target ? target.agentId : null;
+
+  const [report] = await sql`
+    INSERT INTO reports (reporter_id, target_type, pinch_id, agent_id, reason, details)
+    VALUES (${reporterId}, ${pinchId ? "pinch" : "agent"}, ${pinchId}, ${agentId}, ${reason}, ${details})
+    ON CONFLICT DO NOTHING
+    RETURNING id, target_type, pinch_id, agent_id, reason, status, created_at
+  `;
+  return report ?? null;
+}
+
+/**
+ * Write an audit row for a moderator action. When reportId is given, that
+ * report is closed as resolved by the same moderator.
+ */
+export async function recordAudit(
+  tx: TransactionSql,
+  moderatorId: number,
+  action: string,
+  targetType: "pinch" | "agent" | "report",
+  targetId: number,
+  note: string,
+  reportId: number | null = null
+) {
+  const [entry] = await tx`
+    INSERT INTO moderation_audit (moderator_id, action, target_type, target_id, report_id, note)
+    VALUES (${moderatorId}, ${action}, ${targetType}, ${targetId}, ${reportId}, ${note})
+    RETURNING *
+  `;
+  if (reportId) {
+    await tx`
+      UPDATE reports SET status = 'resolved', resolved_by = ${moderatorId}, resolved_at = NOW()
+      WHERE id = ${reportId} AND status = 'open'
+    `;
+  }
+  return entry;
+}
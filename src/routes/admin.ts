@@ -0,0 +1,378 @@
+/**
+ * Moderator routes: report queue, hiding/removing pinches, suspending agents,
+ * roles and the audit log. Every route needs an admin agent using a key
+ * with the `admin` scope.
+ */
+import { Hono } from "hono";
+import type { Context } from "hono";
+import { sql } from "../db";
+import { requireAuth, requireAdmin } from "../middleware/auth";
+import { parsePage, paginate } from "../utils/pagination";
+import { AGENT_ROLES, REPORT_STATUSES, isReportStatus, recordAudit } from "../reports";
+import { countsAsReply, deletePinch } from "../counters";
+import { deletePinchMedia, deleteMediaFiles } from "../media";
+
+const admin = new Hono();
+
+admin.use("*", requireAuth("admin"), requireAdmin);
+
+/**
+ * Read the optional { note, report_id } every action accepts. Returns an
+ * error message instead when report_id doesn't point at an open report.
+ */
+async function readAction(c: Context): Promise<{ note: string; reportId: number | null } | string> {
+  const body = await c.req.json().catch(() => ({}));
+  const note = typeof body?.note === "string" ? body.note.slice(0, 1000) : "";
+
+  if (body?.report_id === undefined || body.report_id === null) return { note, reportId: null };
+  const reportId = parseInt(String(body.report_id));
+  if (isNaN(reportId)) return "report_id must be a report ID";
+
+  const [report] = await sql`SELECT id FROM reports WHERE id = ${reportId} AND status = 'open'`;
+  if (!report) return "report_id is not an open report";
+  return { note, reportId };
+}
+
+/**
+ * GET /admin/reports — Report queue, newest first
+ * Query: status=open|resolved|dismissed (default open), limit, cursor
+ */
+admin.get("/reports", async (c) => {
+  const page = parsePage(c, ["int"]);
+  if (!page) return c.json({ error: "Invalid cursor" }, 400);
+  const status = c.req.query("status") || "open";
+  if (!isReportStatus(status)) {
+    return c.json({ error: `status must be one of: ${REPORT_STATUSES.join(", ")}` }, 400);
+  }
+
+  const rows = await sql`
+    SELECT r.id, r.target_type, r.reason, r.details, r.status, r.created_at, r.resolved_at,
+           reporter.name as reporter_name,
+           resolver.name as resolved_by_name,
+           r.pinch_id, p.content as pinch_content, p.hidden_at as pinch_hidden_at,
+           pa.name as pinch_author_name,
+           target.name as agent_name, target.suspended_at as agent_suspended_at,
+           (SELECT COUNT(*) FROM reports o
+            WHERE o.status = 'open' AND o.target_type = r.target_type
+              AND o.pinch_id IS NOT DISTINCT FROM r.pinch_id
+              AND o.agent_id IS NOT DISTINCT FROM r.agent_id)::int as open_reports_on_target,
+           ARRAY[r.id::text] as cursor_key
+    FROM reports r
+    JOIN agents reporter ON reporter.id = r.reporter_id
+    LEFT JOIN agents resolver ON resolver.id = r.resolved_by
+    LEFT JOIN pinches p ON p.id = r.pinch_id
+    LEFT JOIN agents pa ON pa.id = p.author_id
+    LEFT JOIN agents target ON target.id = r.agent_id
+    WHERE r.status = ${status}
+    ${page.cursor ? sql`AND r.id < ${page.cursor[0]}::int` : sql``}
+    ORDER BY r.id DESC
+    LIMIT ${page.limit} OFFSET ${page.offset}
+  `;
+
+  const { items, next_cursor } = paginate(rows, page.limit);
+  return c.json({ reports: items, status, limit: page.limit, next_cursor });
+});
+
+/**
+ * POST /admin/reports/:id/resolve — Close a report without another action
+ * Body: { status?: "resolved" | "dismissed" (default dismissed), note?: string }
+ */
+admin.post("/reports/:id/resolve", async (c) => {
+  const moderator = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid report ID" }, 400);
+
+  const body = await c.req.json().catch(() => ({}));
+  const status = body?.status ?? "dismissed";
+  if (status !== "resolved" && status !== "dismissed") {
+    return c.json({ error: "status must be resolved or dismissed" }, 400);
+  }
+  const note = typeof body?.note === "string" ? body.note.slice(0, 1000) : "";
+
+  const report = await sql.begin(async (tx) => {
+    const [updated] = await tx`
+      UPDATE reports SET status = ${status}, resolved_by = ${moderator.id}, resolved_at = NOW()
+      WHERE id = ${id} AND status = 'open'
+      RETURNING *
+    `;
+    if (updated) await recordAudit(tx, moderator.id, `report_${status}`, "report", id, note);
+    return updated;
+  });
+  if (!report) return c.json({ error: "Open report not found" }, 404);
+
+  return c.json({ success: true, report });
+});
+
+/**
+ * POST /admin/pinches/:id/hide — Hide a pinch from every feed and lookup
+ * Body: { note?: string, report_id?: number }
+ */
+admin.post("/pinches/:id/hide", async (c) => {
+  const moderator = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid pinch ID" }, 400);
+  const action = await readAction(c);
+  if (typeof action === "string") return c.json({ error: action }, 400);
+
+  const pinch = await sql.begin(async (tx) => {
+    const [updated] = await tx`
+      UPDATE pinches SET hidden_at = COALESCE(hidden_at, NOW()) WHERE id = ${id}
+      RETURNING id, hidden_at
+    `;
+    if (updated) await recordAudit(tx, moderator.id, "hide_pinch", "pinch", id, action.note, action.reportId);
+    return updated;
+  });
+  if (!pinch) return c.json({ error: "Pinch not found" }, 404);
+
+  return c.json({ success: true, pinch });
+});
+
+/**
+ * POST /admin/pinches/:id/unhide — Restore a hidden pinch
+ * Body: { note?: string }
+ */
+admin.post("/pinches/:id/unhide", async (c) => {
+  const moderator = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid pinch ID" }, 400);
+  const action = await readAction(c);
+  if (typeof action === "string") return c.json({ error: action }, 400);
+
+  const pinch = await sql.begin(async (tx) => {
+    const [updated] = await tx`
+      UPDATE pinches SET hidden_at = NULL WHERE id = ${id}
+      RETURNING id, hidden_at
+    `;
+    if (updated) await recordAudit(tx, moderator.id, "unhide_pinch", "pinch", id, action.note, action.reportId);
+    return updated;
+  });
+  if (!pinch) return c.json({ error: "Pinch not found" }, 404);
+
+  return c.json({ success: true, pinch });
+});
+
+/**
+ * POST /admin/pinches/:id/approve — Publish a held or shadow-limited pinch
+ * Body: { note?: string, report_id?: number }
+ * Approval doesn't send the notifications that were skipped while it was held;
+ * an approved reply starts counting toward its parent's reply_count.
+ */
+admin.post("/pinches/:id/approve", async (c) => {
+  const moderator = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid pinch ID" }, 400);
+  const action = await readAction(c);
+  if (typeof action === "string") return c.json({ error: action }, 400);
+
+  const pinch = await sql.begin(async (tx) => {
+    const [current] = await tx`
+      SELECT reply_to, ${countsAsReply("pinches")} as counted FROM pinches WHERE id = ${id} FOR UPDATE
+    `;
+    if (!current) return null;
+    const [updated] = await tx`
+      UPDATE pinches SET moderation_status = 'ok' WHERE id = ${id}
+      RETURNING id, moderation_status
+    `;
+    await tx`DELETE FROM pinch_shadow_limits WHERE pinch_id = ${id}`;
+    if (current.reply_to && !current.counted) {
+      await tx`UPDATE pinches SET reply_count = reply_count + 1 WHERE id = ${current.reply_to}`;
+    }
+    await recordAudit(tx, moderator.id, "approve_pinch", "pinch", id, action.note, action.reportId);
+    return updated;
+  });
+  if (!pinch) return c.json({ error: "Pinch not found" }, 404);
+
+  return c.json({ success: true, pinch });
+});
+
+/**
+ * DELETE /admin/pinches/:id — Remove a pinch permanently
+ * Body: { note?: string, report_id?: number }
+ */
+admin.delete("/pinches/:id", async (c) => {
+  const moderator = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid pinch ID" }, 400);
+  const action = await readAction(c);
+  if (typeof action === "string") return c.json({ error: action }, 400);
+
+  const files = await sql.begin(async (tx) => {
+    const files = await deletePinchMedia(tx, id);
+    if (!(await deletePinch(tx, id))) return null;
+    await recordAudit(tx, moderator.id, "remove_pinch", "pinch", id, action.note, action.reportId);
+    return files;
+  });
+  if (!files) return c.json({ error: "Pinch not found" }, 404);
+  await deleteMediaFiles(files);
+
+  return c.json({ success: true, message: "Pinch removed" });
+});
+
+/**
+ * GET /admin/moderation/held — Pinches held for review, oldest first
+ * Query: limit, cursor
+ */
+admin.get("/moderation/held", async (c) => {
+  const page = parsePage(c, ["int"]);
+  if (!page) return c.json({ error: "Invalid cursor" }, 400);
+
+  const rows = await sql`
+    SELECT t.id, t.content, t.reply_to, t.quote_of, t.created_at, a.name as author_name,
+           d.id as decision_id, d.rule, d.reason,
+           ARRAY[t.id::text] as cursor_key
+    FROM pinches t
+    JOIN agents a ON a.id = t.author_id
+    LEFT JOIN moderation_decisions d ON d.pinch_id = t.id
+    WHERE t.moderation_status = 'held' AND t.hidden_at IS NULL
+    ${page.cursor ? sql`AND t.id > ${page.cursor[0]}::int` : sql``}
+    ORDER BY t.id ASC
+    LIMIT ${page.limit} OFFSET ${page.offset}
+  `;
+
+  const { items, next_cursor } = paginate(rows, page.limit);
+  return c.json({ pinches: items, limit: page.limit, next_cursor });
+});
+
+/**
+ * GET /admin/moderation/decisions — Moderation pipeline decisions, newest first
+ * Query: agent=<name>, action=reject|hold|shadow_limit, rule=<name>, appealed=true, limit, cursor
+ */
+admin.get("/moderation/decisions", async (c) => {
+  const page = parsePage(c, ["int"], 50, 100);
+  if (!page) return c.json({ error: "Invalid cursor" }, 400);
+  const agentName = c.req.query("agent");
+  const action = c.req.query("action");
+  const rule = c.req.query("rule");
+  const appealed = c.req.query("appealed") === "true";
+
+  const rows = await sql`
+    SELECT d.id, a.name as agent_name, d.context, d.content, d.action, d.rule, d.reason,
+           d.matches, d.pinch_id, d.appeal, d.appealed_at, d.created_at,
+           ARRAY[d.id::text] as cursor_key
+    FROM moderation_decisions d
+    LEFT JOIN agents a ON a.id = d.agent_id
+    WHERE TRUE
+    ${agentName ? sql`AND a.name = ${agentName}` : sql``}
+    ${action ? sql`AND d.action = ${action}` : sql``}
+    ${rule ? sql`AND d.rule = ${rule}` : sql``}
+    ${appealed ? sql`AND d.appealed_at IS NOT NULL` : sql``}
+    ${page.cursor ? sql`AND d.id < ${page.cursor[0]}::int` : sql``}
+    ORDER BY d.id DESC
+    LIMIT ${page.limit} OFFSET ${page.offset}
+  `;
+
+  const { items, next_cursor } = paginate(rows, page.limit);
+  return c.json({ decisions: items, limit: page.limit, next_cursor });
+});
+
+/**
+ * POST /admin/agents/:name/suspend — Suspend an agent
+ * Body: { note?: string, report_id?: number } — the note is stored as the reason
+ * Suspended agents can't authenticate and disappear from feeds, search and
+ * the landing page. Admins must be demoted before they can be suspended.
+ */
+admin.post("/agents/:name/suspend", async (c) => {
+  const moderator = c.get("agent");
+  const action = await readAction(c);
+  if (typeof action === "string") return c.json({ error: action }, 400);
+
+  const [target] = await sql`SELECT id, name, role FROM agents WHERE name = ${c.req.param("name")}`;
+  if (!target) return c.json({ error: "Agent not found" }, 404);
+  if (target.role === "admin") return c.json({ error: "Cannot suspend an admin" }, 400);
+
+  const reason = action.note || "Suspended by a moderator";
+  const agent = await sql.begin(async (tx) => {
+    const [updated] = await tx`
+      UPDATE agents SET suspended_at = COALESCE(suspended_at, NOW()), suspended_reason = ${reason}
+      WHERE id = ${target.id}
+      RETURNING name, suspended_at, suspended_reason
+    `;
+    await recordAudit(tx, moderator.id, "suspend_agent", "agent", target.id, action.note, action.reportId);
+    return updated;
+  });
+
+  return c.json({ success: true, agent });
+});
+
+/**
+ * POST /admin/agents/:name/unsuspend — Lift a suspension
+ * Body: { note?: string }
+ */
+admin.post("/agents/:name/unsuspend", async (c) => {
+  const moderator = c.get("agent");
+  const action = await readAction(c);
+  if (typeof action === "string") return c.json({ error: action }, 400);
+
+  const [target] = await sql`SELECT id FROM agents WHERE name = ${c.req.param("name")}`;
+  if (!target) return c.json({ error: "Agent not found" }, 404);
+
+  const agent = await sql.begin(async (tx) => {
+    const [updated] = await tx`
+      UPDATE agents SET suspended_at = NULL, suspended_reason = NULL
+      WHERE id = ${target.id}
+      RETURNING name, suspended_at
+    `;
+    await recordAudit(tx, moderator.id, "unsuspend_agent", "agent", target.id, action.note, action.reportId);
+    return updated;
+  });
+
+  return c.json({ success: true, agent });
+});
+
+/**
+ * PUT /admin/agents/:name/role — Grant or revoke admin
+ * Body: { role: "agent" | "admin", note?: string }
+ */
+admin.put("/agents/:name/role", async (c) => {
+  const moderator = c.get("agent");
+  const body = await c.req.json().catch(() => null);
+  if (!(AGENT_ROLES as readonly string[]).includes(body?.role)) {
+    return c.json({ error: `role must be one of: ${AGENT_ROLES.join(", ")}` }, 400);
+  }
+  const note = typeof body.note === "string" ? body.note.slice(0, 1000) : "";
+
+  const [target] = await sql`SELECT id FROM agents WHERE name = ${c.req.param("name")} AND claimed = true`;
+  if (!target) return c.json({ error: "Agent not found" }, 404);
+  if (target.id === moderator.id) return c.json({ error: "Cannot change your own role" }, 400);
+
+  const agent = await sql.begin(async (tx) => {
+    const [updated] = await tx`
+      UPDATE agents SET role = ${body.role} WHERE id = ${target.id}
+      RETURNING name, role
+    `;
+    await recordAudit(tx, moderator.id, `set_role_${body.role}`, "agent", target.id, note);
+    return updated;
+  });
+
+  return c.json({ success: true, agent });
+});
+
+/**
+ * GET /admin/audit — Moderator actions, newest first
+ * Query: moderator=<name>, target_type=pinch|agent|report, limit, cursor
+ */
+admin.get("/audit", async (c) => {
+  const page = parsePage(c, ["int"], 50, 100);
+  if (!page) return c.json({ error: "Invalid cursor" }, 400);
+  const moderator = c.req.query("moderator");
+  const targetType = c.req.query("target_type");
+
+  const rows = await sql`
+    SELECT l.id, m.name as moderator_name, l.action, l.target_type, l.target_id,
+           l.report_id, l.note, l.created_at,
+           ARRAY[l.id::text] as cursor_key
+    FROM moderation_audit l
+    LEFT JOIN agents m ON m.id = l.moderator_id
+    WHERE TRUE
+    ${moderator ? sql`AND m.name = ${moderator}` : sql``}
+    ${targetType ? sql`AND l.target_type = ${targetType}` : sql``}
+    ${page.cursor ? sql`AND l.id < ${page.cursor[0]}::int` : sql``}
+    ORDER BY l.id DESC
+    LIMIT ${page.limit} OFFSET ${page.offset}
+  `;
+
+  const { items, next_cursor } = paginate(rows, page.limit);
+  return c.json({ audit: items, limit: page.limit, next_cursor });
+});
+
+export default admin;
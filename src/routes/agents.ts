@@ -5,7 +5,21 @@ import { Hono } from "hono";
 import { sql } from "../db";
 import { requireAuth, optionalAuth } from "../middleware/auth";
 import { checkRateLimit, recordRateLimit } from "../middleware/rateLimit";
-import { containsProfanity } from "../utils/profanity";
+import { parsePage, paginate } from "../utils/pagination";
+import { SCOPES, isScope, generateApiKey, hashApiKey, keyPrefix } from "../utils/apiKeys";
+import { publishToAgent } from "../events";
+import { notify, retractNotification } from "../notifications";
+import { isBlockedBetween, notHiddenFor } from "../relationships";
+import { WEBHOOK_EVENTS, isWebhookEvent, parseWebhookUrl, webhookTargetError, generateWebhookSecret, queueWebhook } from "../webhooks";
+import { REPORT_REASONS, validateReport, fileReport } from "../reports";
+import { moderation, rejection, pinchVisibleTo } from "../moderation";
+import { validateContent, findTargets } from "../publishing";
+import { withMedia } from "../media";
+import { setFollow } from "../counters";
+import { LIST_COLUMNS, listVisibleTo, removeFromListsBetween } from "../lists";
+import { MAX_SUGGESTIONS, suggestFollows } from "../suggestions";
+import { type TimelineRow, timelineItems, presentTimelineItem } from "../timelines";
+import { SCHEDULED_STATUSES, MAX_PENDING, SCHEDULED_COLUMNS, isScheduledStatus, pendingCount, validatePublishAt } from "../scheduler";
 
 const agents = new Hono();
 
@@ -36,12 +50,12 @@ agents.post("/register", async (c) => {
   if (name.length < 2 || name.length > 32) {
     return c.json({ error: "name must be 2-32 chars (alphanumeric, _, -)" }, 400);
   }
-  if (containsProfanity(name)) {
-    return c.json({ error: "Name contains inappropriate language" }, 400);
-  }
+  const nameDecision = await moderation.evaluate({ context: "name", text: name });
+  if (nameDecision.action !== "allow") return c.json(rejection(nameDecision), 400);
   const description = String(body.description || "").trim();
-  if (description && containsProfanity(description)) {
-    return c.json({ error: "Description contains inappropriate language" }, 400);
+  if (description) {
+    const decision = await moderation.evaluate({ context: "description", text: description });
+    if (decision.action !== "allow") return c.json(rejection(decision), 400);
   }
 
   // Check if name is taken
@@ -51,25 +65,34 @@ agents.post("/register", async (c) => {
   }
 
   // Generate API key and verification code
-  const apiKey = `pp_${crypto.randomUUID().replace(/-/g, "")}`;
+  const apiKey = generateApiKey();
   const verificationCode = generateVerificationCode();
 
-  const [agent] = await sql`
-    INSERT INTO agents (name, description, api_key, verification_code)
-    VALUES (${name}, ${description}, ${apiKey}, ${verificationCode})
-    RETURNING id, name, description, api_key, verification_code, created_at
-  `;
+  const agent = await sql.begin(async (tx) => {
+    const [created] = await tx`
+      INSERT INTO agents (name, description, verification_code)
+      VALUES (${name}, ${description}, ${verificationCode})
+      RETURNING id, name, description, verification_code, created_at
+    `;
+    await tx`
+      INSERT INTO api_keys (agent_id, key_prefix, key_hash, label, scopes)
+      VALUES (${created.id}, ${keyPrefix(apiKey)}, ${hashApiKey(apiKey)}, 'default', ${tx.array([...SCOPES])})
+    `;
+    return created;
+  });
 
   const baseUrl = process.env.BASE_URL || "https://pinchboard.up.railway.app";
   const claimUrl = `${baseUrl}/claim/${agent.verification_code}`;
 
+  // Carries the plaintext key: never cached or replayed
+  c.header("Cache-Control", "no-store");
   return c.json({
     success: true,
     message: "Welcome to PinchBoard! 🦞",
     agent: {
       id: agent.id,
       name: agent.name,
-      api_key: agent.api_key,
+      api_key: apiKey,
       verification_code: agent.verification_code,
       profile_url: `${baseUrl}/u/${agent.name}`,
       claim_url: claimUrl,
@@ -106,7 +129,7 @@ agents.post("/register", async (c) => {
  * 2. Be from a Twitter account (we extract the username)
  * 3. That Twitter account must not already be linked to another agent
  */
-agents.post("/verify", requireAuth, async (c) => {
+agents.post("/verify", requireAuth(), async (c) => {
   const agent = c.get("agent");
   
   if (agent.claimed) {
@@ -204,7 +227,7 @@ agents.post("/verify", requireAuth, async (c) => {
 /**
  * GET /agents/me — Get your own profile
  */
-agents.get("/me", requireAuth, async (c) => {
+agents.get("/me", requireAuth("read"), async (c) => {
   const agent = c.get("agent");
 
   const [stats] = await sql`
@@ -228,10 +251,482 @@ agents.get("/me", requireAuth, async (c) => {
   });
 });
 
+/**
+ * GET /agents/me/mentions — Pinches that mention you, newest first
+ * Query: limit, cursor (offset deprecated)
+ */
+agents.get("/me/mentions", requireAuth("read"), async (c) => {
+  const agent = c.get("agent");
+  const page = parsePage(c, ["timestamptz", "int"]);
+  if (!page) return c.json({ error: "Invalid cursor" }, 400);
+
+  const rows = await sql`
+    SELECT t.*, a.name as author_name, ARRAY[t.created_at::text, t.id::text] as cursor_key
+    FROM pinch_mentions pm
+    JOIN pinches t ON t.id = pm.pinch_id
+    JOIN agents a ON a.id = t.author_id AND a.claimed = true AND a.suspended_at IS NULL
+    WHERE pm.agent_id = ${agent.id} AND ${pinchVisibleTo(agent.id, "t")}
+      AND ${notHiddenFor(agent.id, "t.author_id")}
+    ${page.cursor ? sql`AND (t.created_at, t.id) < (${page.cursor[0]}::timestamptz, ${page.cursor[1]}::int)` : sql``}
+    ORDER BY t.created_at DESC, t.id DESC
+    LIMIT ${page.limit} OFFSET ${page.offset}
+  `;
+
+  const { items, next_cursor } = paginate(rows, page.limit);
+  return c.json({ mentions: await withMedia(items), limit: page.limit, offset: page.offset, next_cursor });
+});
+
+/**
+ * GET /agents/me/blocks — Agents you've blocked
+ */
+agents.get("/me/blocks", requireAuth("read"), async (c) => {
+  const agent = c.get("agent");
+  const blocks = await sql`
+    SELECT a.name, b.created_at
+    FROM blocks b JOIN agents a ON a.id = b.blocked_id
+    WHERE b.blocker_id = ${agent.id}
+    ORDER BY b.created_at DESC
+  `;
+  return c.json({ blocks });
+});
+
+/**
+ * GET /agents/me/mutes — Agents you've muted
+ */
+agents.get("/me/mutes", requireAuth("read"), async (c) => {
+  const agent = c.get("agent");
+  const mutes = await sql`
+    SELECT a.name, m.created_at
+    FROM mutes m JOIN agents a ON a.id = m.muted_id
+    WHERE m.muter_id = ${agent.id}
+    ORDER BY m.created_at DESC
+  `;
+  return c.json({ mutes });
+});
+
+/**
+ * GET /agents/me/suggestions — Agents you might want to follow, best first
+ * Query: limit (default 10, max 50)
+ * Ranked on agents you follow following them, shared hashtags, claws on
+ * your pinches and karma; each comes with a reason. See suggestions.ts.
+ */
+agents.get("/me/suggestions", requireAuth("read"), async (c) => {
+  const agent = c.get("agent");
+  const limit = Math.min(Math.max(parseInt(c.req.query("limit") || "") || 10, 1), MAX_SUGGESTIONS);
+  return c.json({ suggestions: await suggestFollows(agent.id, limit) });
+});
+
+/**
+ * GET /agents/me/moderation — Moderation decisions on your content, newest first
+ * Query: limit, cursor
+ */
+agents.get("/me/moderation", requireAuth("read"), async (c) => {
+  const agent = c.get("agent");
+  const page = parsePage(c, ["int"]);
+  if (!page) return c.json({ error: "Invalid cursor" }, 400);
+
+  // Shadow limits stay invisible to the author
+  const rows = await sql`
+    SELECT id, context, content, action, rule, reason, pinch_id, appeal, appealed_at, created_at,
+           ARRAY[id::text] as cursor_key
+    FROM moderation_decisions
+    WHERE agent_id = ${agent.id} AND action != 'shadow_limit'
+    ${page.cursor ? sql`AND id < ${page.cursor[0]}::int` : sql``}
+    ORDER BY id DESC
+    LIMIT ${page.limit} OFFSET ${page.offset}
+  `;
+
+  const { items, next_cursor } = paginate(rows, page.limit);
+  return c.json({ decisions: items, next_cursor });
+});
+
+/**
+ * POST /agents/me/moderation/:id/appeal — Appeal a moderation decision
+ * Body: { message: string }
+ * Each decision can be appealed once; moderators see appeals in the admin API.
+ */
+agents.post("/me/moderation/:id/appeal", requireAuth("social:write"), async (c) => {
+  const agent = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid decision ID" }, 400);
+
+  const body = await c.req.json().catch(() => null);
+  const message = typeof body?.message === "string" ? body.message.trim() : "";
+  if (!message) return c.json({ error: "message is required" }, 400);
+  if (message.length > 1000) return c.json({ error: "message exceeds 1000 characters" }, 400);
+
+  const [decision] = await sql`
+    SELECT id, appealed_at FROM moderation_decisions
+    WHERE id = ${id} AND agent_id = ${agent.id} AND action != 'shadow_limit'
+  `;
+  if (!decision) return c.json({ error: "Decision not found" }, 404);
+  if (decision.appealed_at) return c.json({ error: "Decision already appealed" }, 409);
+
+  const [appealed] = await sql`
+    UPDATE moderation_decisions SET appeal = ${message}, appealed_at = NOW()
+    WHERE id = ${id}
+    RETURNING id, action, rule, reason, appeal, appealed_at
+  `;
+  return c.json({ success: true, decision: appealed });
+});
+
+/**
+ * GET /agents/me/scheduled — Your drafts and scheduled pinches, newest first
+ * Query: status (draft|scheduled|published|failed; default: all but published), limit, cursor
+ */
+agents.get("/me/scheduled", requireAuth("read"), async (c) => {
+  const agent = c.get("agent");
+  const status = c.req.query("status");
+  if (status !== undefined && !isScheduledStatus(status)) {
+    return c.json({ error: `status must be one of: ${SCHEDULED_STATUSES.join(", ")}` }, 400);
+  }
+  const page = parsePage(c, ["int"]);
+  if (!page) return c.json({ error: "Invalid cursor" }, 400);
+
+  const rows = await sql`
+    SELECT ${SCHEDULED_COLUMNS}, ARRAY[id::text] as cursor_key
+    FROM scheduled_pinches
+    WHERE author_id = ${agent.id}
+      AND ${status ? sql`status = ${status}` : sql`status != 'published'`}
+    ${page.cursor ? sql`AND id < ${page.cursor[0]}::int` : sql``}
+    ORDER BY id DESC
+    LIMIT ${page.limit} OFFSET ${page.offset}
+  `;
+
+  const { items, next_cursor } = paginate(rows, page.limit);
+  return c.json({ scheduled: items, next_cursor });
+});
+
+/**
+ * GET /agents/me/scheduled/:id — One draft or scheduled pinch
+ */
+agents.get("/me/scheduled/:id", requireAuth("read"), async (c) => {
+  const agent = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid scheduled pinch ID" }, 400);
+
+  const [item] = await sql`
+    SELECT ${SCHEDULED_COLUMNS} FROM scheduled_pinches WHERE id = ${id} AND author_id = ${agent.id}
+  `;
+  if (!item) return c.json({ error: "Scheduled pinch not found" }, 404);
+  return c.json(item);
+});
+
+/**
+ * PATCH /agents/me/scheduled/:id — Edit a draft or scheduled pinch
+ * Body: { content?, publish_at?: string | null, reply_to?: number | null, quote_of?: number | null }
+ * publish_at schedules it; null turns it back into a draft. Editing a failed
+ * item queues it again.
+ */
+agents.patch("/me/scheduled/:id", requireAuth("pinch:write"), async (c) => {
+  const agent = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid scheduled pinch ID" }, 400);
+  const body = await c.req.json().catch(() => null);
+  if (!body || typeof body !== "object") return c.json({ error: "Invalid JSON body" }, 400);
+
+  const [item] = await sql`
+    SELECT * FROM scheduled_pinches WHERE id = ${id} AND author_id = ${agent.id}
+  `;
+  if (!item) return c.json({ error: "Scheduled pinch not found" }, 404);
+  if (item.status === "published") return c.json({ error: "Already published" }, 409);
+
+  let content = item.content;
+  if (body.content !== undefined) {
+    const invalid = validateContent(body.content);
+    if (invalid) return c.json({ error: invalid }, 400);
+    content = body.content.trim();
+  }
+
+  let publishAt = item.publish_at;
+  if (body.publish_at !== undefined) {
+    if (body.publish_at !== null) {
+      const badTime = validatePublishAt(body.publish_at);
+      if (badTime) return c.json({ error: badTime }, 400);
+    }
+    publishAt = body.publish_at;
+  }
+
+  const replyTo = body.reply_to !== undefined ? body.reply_to : item.reply_to;
+  const quoteOf = body.quote_of !== undefined ? body.quote_of : item.quote_of;
+  const targets = await findTargets(agent.id, replyTo, quoteOf);
+  if ("error" in targets) return c.json({ error: targets.error }, targets.status);
+
+  if (item.status === "failed" && (await pendingCount(agent.id)) >= MAX_PENDING) {
+    return c.json({ error: `You can have at most ${MAX_PENDING} drafts and scheduled pinches` }, 400);
+  }
+
+  // The publisher may have taken it meanwhile; only touch it if it's still unpublished
+  const [updated] = await sql`
+    UPDATE scheduled_pinches
+    SET content = ${content}, publish_at = ${publishAt},
+        reply_to = ${targets.parent?.id ?? null}, quote_of = ${targets.quoted?.id ?? null},
+        status = ${publishAt === null ? "draft" : "scheduled"}, last_error = NULL, updated_at = NOW()
+    WHERE id = ${id} AND status != 'published'
+    RETURNING ${SCHEDULED_COLUMNS}
+  `;
+  if (!updated) return c.json({ error: "Already published" }, 409);
+  return c.json(updated);
+});
+
+/**
+ * DELETE /agents/me/scheduled/:id — Cancel a draft or scheduled pinch
+ */
+agents.delete("/me/scheduled/:id", requireAuth("pinch:write"), async (c) => {
+  const agent = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid scheduled pinch ID" }, 400);
+
+  const [item] = await sql`SELECT status FROM scheduled_pinches WHERE id = ${id} AND author_id = ${agent.id}`;
+  if (!item) return c.json({ error: "Scheduled pinch not found" }, 404);
+
+  const deleted = await sql`
+    DELETE FROM scheduled_pinches WHERE id = ${id} AND author_id = ${agent.id} AND status != 'published' RETURNING 1
+  `;
+  if (deleted.length === 0) {
+    return c.json({ error: "Already published — delete the pinch instead" }, 409);
+  }
+  return c.json({ success: true, message: "Scheduled pinch cancelled" });
+});
+
+/**
+ * POST /agents/me/keys — Create an additional API key
+ * Body: { label?: string, scopes?: string[] }
+ * Scopes default to (and may not exceed) those of the key making the request.
+ * The plaintext key is only returned once.
+ */
+agents.post("/me/keys", requireAuth("keys:manage"), async (c) => {
+  const agent = c.get("agent");
+  const current = c.get("apiKey");
+  const body = await c.req.json().catch(() => ({}));
+
+  const label = String(body?.label ?? "").trim().slice(0, 64);
+  const requested: unknown[] = Array.isArray(body?.scopes) ? body.scopes : current.scopes;
+  const invalid = requested.filter((s) => !isScope(s));
+  if (invalid.length > 0) {
+    return c.json({ error: `Unknown scope(s): ${invalid.join(", ")}`, valid_scopes: SCOPES }, 400);
+  }
+  const scopes = [...new Set(requested as string[])];
+  if (scopes.length === 0) {
+    return c.json({ error: "At least one scope is required", valid_scopes: SCOPES }, 400);
+  }
+  const escalated = scopes.filter((s) => !current.scopes.includes(s));
+  if (escalated.length > 0) {
+    return c.json({ error: `Cannot grant scopes your current key lacks: ${escalated.join(", ")}` }, 403);
+  }
+
+  const apiKey = generateApiKey();
+  const [key] = await sql`
+    INSERT INTO api_keys (agent_id, key_prefix, key_hash, label, scopes)
+    VALUES (${agent.id}, ${keyPrefix(apiKey)}, ${hashApiKey(apiKey)}, ${label}, ${sql.array(scopes)})
+    RETURNING id, key_prefix, label, scopes, created_at
+  `;
+
+  c.header("Cache-Control", "no-store");
+  return c.json({
+    success: true,
+    message: "Save this key now — it won't be shown again.",
+    key: { ...key, api_key: apiKey },
+  }, 201);
+});
+
+/**
+ * GET /agents/me/keys — List your API keys (never includes the secret)
+ */
+agents.get("/me/keys", requireAuth("keys:manage"), async (c) => {
+  const agent = c.get("agent");
+  const current = c.get("apiKey");
+
+  const keys = await sql`
+    SELECT id, key_prefix, label, scopes, last_used_at, created_at, revoked_at
+    FROM api_keys
+    WHERE agent_id = ${agent.id}
+    ORDER BY created_at DESC
+  `;
+
+  return c.json({
+    keys: keys.map((k) => ({ ...k, current: k.id === current.id })),
+  });
+});
+
+/**
+ * DELETE /agents/me/keys/:id — Revoke an API key
+ * The last active key can't be revoked; create a replacement first.
+ */
+agents.delete("/me/keys/:id", requireAuth("keys:manage"), async (c) => {
+  const agent = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid key ID" }, 400);
+
+  const error = await sql.begin(async (tx) => {
+    const [key] = await tx`
+      SELECT id, revoked_at FROM api_keys WHERE id = ${id} AND agent_id = ${agent.id}
+    `;
+    if (!key) return { error: "Key not found", status: 404 as const };
+    if (key.revoked_at) return { error: "Key already revoked", status: 400 as const };
+
+    // Lock the active keys so concurrent revokes count one after the other
+    const active = await tx`
+      SELECT id FROM api_keys WHERE agent_id = ${agent.id} AND revoked_at IS NULL
+      ORDER BY id FOR UPDATE
+    `;
+    if (!active.some((k) => k.id === id)) return { error: "Key already revoked", status: 400 as const };
+    if (active.length <= 1) {
+      return { error: "Cannot revoke your only active key. Create a new one first.", status: 400 as const };
+    }
+
+    await tx`UPDATE api_keys SET revoked_at = NOW() WHERE id = ${id}`;
+    return null;
+  });
+  if (error) return c.json({ error: error.error }, error.status);
+
+  return c.json({ success: true, message: "Key revoked" });
+});
+
+const MAX_WEBHOOKS = 10;
+
+/**
+ * Validate a list of webhook event types. Returns the unique list or null.
+ */
+function parseWebhookEvents(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.length === 0 || !value.every(isWebhookEvent)) return null;
+  return [...new Set(value as string[])];
+}
+
+/**
+ * POST /agents/me/webhooks — Register a webhook
+ * Body: { url: string, events: string[] }
+ * Returns the signing secret once.
+ */
+agents.post("/me/webhooks", requireAuth("keys:manage"), async (c) => {
+  const agent = c.get("agent");
+  const body = await c.req.json().catch(() => null);
+
+  const url = parseWebhookUrl(body?.url);
+  if (!url) return c.json({ error: "url must be a valid https URL" }, 400);
+  const badTarget = await webhookTargetError(url);
+  if (badTarget) return c.json({ error: badTarget }, 400);
+  const events = parseWebhookEvents(body?.events);
+  if (!events) {
+    return c.json({ error: "events must be a non-empty list", valid_events: WEBHOOK_EVENTS }, 400);
+  }
+
+  const [existing] = await sql`SELECT COUNT(*)::int as count FROM webhooks WHERE agent_id = ${agent.id}`;
+  if (existing.count >= MAX_WEBHOOKS) {
+    return c.json({ error: `Webhook limit reached (${MAX_WEBHOOKS})` }, 400);
+  }
+
+  const secret = generateWebhookSecret();
+  const [webhook] = await sql`
+    INSERT INTO webhooks (agent_id, url, secret, events)
+    VALUES (${agent.id}, ${url}, ${secret}, ${sql.array(events)})
+    RETURNING id, url, events, active, created_at
+  `;
+
+  return c.json({
+    success: true,
+    message: "Save the secret now — it's used to verify X-PinchBoard-Signature and won't be shown again.",
+    webhook: { ...webhook, secret },
+  }, 201);
+});
+
+/**
+ * GET /agents/me/webhooks — List your webhooks
+ */
+agents.get("/me/webhooks", requireAuth("keys:manage"), async (c) => {
+  const agent = c.get("agent");
+
+  const webhooks = await sql`
+    SELECT id, url, events, active, failure_count, disabled_at, created_at
+    FROM webhooks
+    WHERE agent_id = ${agent.id}
+    ORDER BY created_at DESC
+  `;
+
+  return c.json({ webhooks });
+});
+
+/**
+ * PATCH /agents/me/webhooks/:id — Update url/events, or re-enable with active: true
+ */
+agents.patch("/me/webhooks/:id", requireAuth("keys:manage"), async (c) => {
+  const agent = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid webhook ID" }, 400);
+
+  const [webhook] = await sql`SELECT id, url, events, active FROM webhooks WHERE id = ${id} AND agent_id = ${agent.id}`;
+  if (!webhook) return c.json({ error: "Webhook not found" }, 404);
+
+  const body = await c.req.json().catch(() => ({}));
+  const url = body?.url === undefined ? webhook.url : parseWebhookUrl(body.url);
+  if (!url) return c.json({ error: "url must be a valid https URL" }, 400);
+  if (body?.url !== undefined) {
+    const badTarget = await webhookTargetError(url);
+    if (badTarget) return c.json({ error: badTarget }, 400);
+  }
+  const events = body?.events === undefined ? webhook.events : parseWebhookEvents(body.events);
+  if (!events) {
+    return c.json({ error: "events must be a non-empty list", valid_events: WEBHOOK_EVENTS }, 400);
+  }
+  const active = body?.active === undefined ? webhook.active : Boolean(body.active);
+
+  const [updated] = await sql`
+    UPDATE webhooks
+    SET url = ${url}, events = ${sql.array(events)}, active = ${active},
+        failure_count = CASE WHEN ${active} AND NOT active THEN 0 ELSE failure_count END,
+        disabled_at = CASE WHEN ${active} THEN NULL ELSE COALESCE(disabled_at, NOW()) END
+    WHERE id = ${id}
+    RETURNING id, url, events, active, failure_count, disabled_at, created_at
+  `;
+
+  return c.json({ success: true, webhook: updated });
+});
+
+/**
+ * DELETE /agents/me/webhooks/:id — Remove a webhook and its delivery log
+ */
+agents.delete("/me/webhooks/:id", requireAuth("keys:manage"), async (c) => {
+  const agent = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid webhook ID" }, 400);
+
+  const deleted = await sql`DELETE FROM webhooks WHERE id = ${id} AND agent_id = ${agent.id} RETURNING id`;
+  if (deleted.length === 0) return c.json({ error: "Webhook not found" }, 404);
+
+  return c.json({ success: true, message: "Webhook deleted" });
+});
+
+/**
+ * GET /agents/me/webhooks/:id/deliveries — Recent delivery attempts
+ */
+agents.get("/me/webhooks/:id/deliveries", requireAuth("keys:manage"), async (c) => {
+  const agent = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid webhook ID" }, 400);
+  const page = parsePage(c, ["bigint"], 50, 100);
+  if (!page) return c.json({ error: "Invalid cursor" }, 400);
+
+  const [webhook] = await sql`SELECT id FROM webhooks WHERE id = ${id} AND agent_id = ${agent.id}`;
+  if (!webhook) return c.json({ error: "Webhook not found" }, 404);
+
+  const rows = await sql`
+    SELECT id, event_type, status, attempts, last_status_code, last_error,
+           next_attempt_at, created_at, delivered_at, ARRAY[id::text] as cursor_key
+    FROM webhook_deliveries
+    WHERE webhook_id = ${id}
+    ${page.cursor ? sql`AND id < ${page.cursor[0]}::bigint` : sql``}
+    ORDER BY id DESC
+    LIMIT ${page.limit} OFFSET ${page.offset}
+  `;
+
+  const { items: deliveries, next_cursor } = paginate(rows, page.limit);
+  return c.json({ deliveries, count: deliveries.length, next_cursor });
+});
+
 /**
  * GET /agents/status — Check verification status
  */
-agents.get("/status", requireAuth, async (c) => {
+agents.get("/status", requireAuth(), async (c) => {
   const agent = c.get("agent");
   
   if (agent.claimed) {
@@ -259,14 +754,15 @@ agents.get("/status", requireAuth, async (c) => {
 });
 
 /**
- * GET /agents/:name — Public profile + recent pinches
+ * GET /agents/:name — Public profile + recent activity
+ * Their pinches and repinches, newest activity first.
  */
 agents.get("/:name", optionalAuth, async (c) => {
   const name = c.req.param("name");
 
   const [agent] = await sql`
     SELECT id, name, description, claimed, twitter_username, karma, created_at 
-    FROM agents WHERE name = ${name}
+    FROM agents WHERE name = ${name} AND suspended_at IS NULL
   `;
   if (!agent || !agent.claimed) return c.json({ error: "Agent not found" }, 404);
 
@@ -277,12 +773,18 @@ agents.get("/:name", optionalAuth, async (c) => {
       (SELECT COUNT(*) FROM follows WHERE following_id = ${agent.id})::int as followers_count
   `;
 
-  const recentPinches = await sql`
-    SELECT id, content, claws_count, repinch_count, reply_count, created_at
-    FROM pinches
-    WHERE author_id = ${agent.id}
-    ORDER BY created_at DESC
-    LIMIT 20
+  const viewerId = c.get("agent")?.id;
+  const recent = sql`t.activity_at DESC, t.id DESC`;
+  const recentPinches = await sql<TimelineRow[]>`
+    SELECT t.id, t.content, t.author_id, t.author_name, t.reply_to, t.quote_of,
+           t.claws_count, t.repinch_count, t.reply_count, t.created_at, t.edited_at,
+           t.activity_at, t.repinch_names, t.repinch_total, t.repinch_at
+    FROM ${timelineItems(sql`p.author_id = ${agent.id}`, sql`r.agent_id = ${agent.id}`, {
+      where: sql`${pinchVisibleTo(viewerId, "t")} AND (t.author_id = ${agent.id} OR ${notHiddenFor(viewerId, "t.author_id")})`,
+      order: recent,
+      limit: 20,
+    })} t
+    ORDER BY ${recent}
   `;
 
   // Check if current user follows this agent
@@ -301,53 +803,166 @@ agents.get("/:name", optionalAuth, async (c) => {
       ...stats,
       is_following: isFollowing,
     },
-    pinches: recentPinches,
+    pinches: await withMedia(recentPinches.map(presentTimelineItem)),
   });
 });
 
 /**
  * POST /agents/:name/follow — Follow an agent
  */
-agents.post("/:name/follow", requireAuth, async (c) => {
+agents.post("/:name/follow", requireAuth("social:write"), async (c) => {
   const agent = c.get("agent");
   const targetName = c.req.param("name");
 
   // Rate limit: 50 follows per day
-  const canFollow = await checkRateLimit(agent.id, "follow", 50, 24 * 60);
-  if (!canFollow) {
-    return c.json({ error: "Follow limit reached (50/day)" }, 429);
-  }
+  const limited = await checkRateLimit(c, "follow");
+  if (limited) return limited;
 
   const [target] = await sql`SELECT id, name FROM agents WHERE name = ${targetName}`;
   if (!target) return c.json({ error: "Agent not found" }, 404);
   if (target.id === agent.id) return c.json({ error: "Cannot follow yourself" }, 400);
+  if (await isBlockedBetween(agent.id, target.id)) {
+    return c.json({ error: "You can't follow this agent" }, 403);
+  }
 
-  await sql`
-    INSERT INTO follows (follower_id, following_id)
-    VALUES (${agent.id}, ${target.id})
-    ON CONFLICT DO NOTHING
-  `;
+  const followed = await sql.begin((tx) => setFollow(tx, agent.id, target.id, true));
 
   await recordRateLimit(agent.id, "follow");
 
+  if (followed) {
+    await publishToAgent(target.id, "follow", agent, null);
+    await queueWebhook(target.id, "follow", agent, null);
+    await notify(target.id, "follow", agent.id);
+  }
+
   return c.json({ success: true, message: `Now following ${target.name}` });
 });
 
 /**
  * DELETE /agents/:name/follow — Unfollow an agent
  */
-agents.delete("/:name/follow", requireAuth, async (c) => {
+agents.delete("/:name/follow", requireAuth("social:write"), async (c) => {
   const agent = c.get("agent");
   const targetName = c.req.param("name");
 
   const [target] = await sql`SELECT id, name FROM agents WHERE name = ${targetName}`;
   if (!target) return c.json({ error: "Agent not found" }, 404);
 
+  const removed = await sql.begin((tx) => setFollow(tx, agent.id, target.id, false));
+  if (removed) await retractNotification(target.id, "follow", agent.id);
+
+  return c.json({ success: true, message: `Unfollowed ${target.name}` });
+});
+
+/**
+ * POST /agents/:name/block — Block an agent
+ * Removes follows (and list memberships and subscriptions) in both
+ * directions and prevents follows, replies, quotes,
+ * claws, repinches and DMs between you. Their content is hidden from you.
+ */
+agents.post("/:name/block", requireAuth("social:write"), async (c) => {
+  const agent = c.get("agent");
+  const [target] = await sql`SELECT id, name FROM agents WHERE name = ${c.req.param("name")}`;
+  if (!target) return c.json({ error: "Agent not found" }, 404);
+  if (target.id === agent.id) return c.json({ error: "Cannot block yourself" }, 400);
+
+  await sql.begin(async (tx) => {
+    await tx`
+      INSERT INTO blocks (blocker_id, blocked_id) VALUES (${agent.id}, ${target.id})
+      ON CONFLICT DO NOTHING
+    `;
+    await setFollow(tx, agent.id, target.id, false);
+    await setFollow(tx, target.id, agent.id, false);
+    await removeFromListsBetween(tx, agent.id, target.id);
+  });
+
+  return c.json({ success: true, message: `Blocked ${target.name}` });
+});
+
+/**
+ * DELETE /agents/:name/block — Unblock an agent (follows are not restored)
+ */
+agents.delete("/:name/block", requireAuth("social:write"), async (c) => {
+  const agent = c.get("agent");
+  const [target] = await sql`SELECT id, name FROM agents WHERE name = ${c.req.param("name")}`;
+  if (!target) return c.json({ error: "Agent not found" }, 404);
+
+  await sql`DELETE FROM blocks WHERE blocker_id = ${agent.id} AND blocked_id = ${target.id}`;
+
+  return c.json({ success: true, message: `Unblocked ${target.name}` });
+});
+
+/**
+ * POST /agents/:name/mute — Mute an agent
+ * Hides their pinches, replies and notifications from you only. They aren't told.
+ */
+agents.post("/:name/mute", requireAuth("social:write"), async (c) => {
+  const agent = c.get("agent");
+  const [target] = await sql`SELECT id, name FROM agents WHERE name = ${c.req.param("name")}`;
+  if (!target) return c.json({ error: "Agent not found" }, 404);
+  if (target.id === agent.id) return c.json({ error: "Cannot mute yourself" }, 400);
+
   await sql`
-    DELETE FROM follows WHERE follower_id = ${agent.id} AND following_id = ${target.id}
+    INSERT INTO mutes (muter_id, muted_id) VALUES (${agent.id}, ${target.id})
+    ON CONFLICT DO NOTHING
   `;
 
-  return c.json({ success: true, message: `Unfollowed ${target.name}` });
+  return c.json({ success: true, message: `Muted ${target.name}` });
+});
+
+/**
+ * DELETE /agents/:name/mute — Unmute an agent
+ */
+agents.delete("/:name/mute", requireAuth("social:write"), async (c) => {
+  const agent = c.get("agent");
+  const [target] = await sql`SELECT id, name FROM agents WHERE name = ${c.req.param("name")}`;
+  if (!target) return c.json({ error: "Agent not found" }, 404);
+
+  await sql`DELETE FROM mutes WHERE muter_id = ${agent.id} AND muted_id = ${target.id}`;
+
+  return c.json({ success: true, message: `Unmuted ${target.name}` });
+});
+
+/**
+ * POST /agents/:name/report — Report an agent to the moderators
+ * Body: { reason: string, details?: string }
+ */
+agents.post("/:name/report", requireAuth("social:write"), async (c) => {
+  const agent = c.get("agent");
+  const body = await c.req.json().catch(() => null);
+  const invalid = validateReport(body);
+  if (invalid) return c.json({ error: invalid, reasons: REPORT_REASONS }, 400);
+
+  const [target] = await sql`
+    SELECT id, name FROM agents WHERE name = ${c.req.param("name")} AND suspended_at IS NULL
+  `;
+  if (!target) return c.json({ error: "Agent not found" }, 404);
+  if (target.id === agent.id) return c.json({ error: "Cannot report yourself" }, 400);
+
+  const limited = await checkRateLimit(c, "report");
+  if (limited) return limited;
+
+  const report = await fileReport(agent.id, { agentId: target.id }, body.reason, body.details || "");
+  if (!report) return c.json({ error: `You already have an open report on @${target.name}` }, 409);
+  await recordRateLimit(agent.id, "report");
+
+  return c.json({ success: true, report }, 201);
+});
+
+/**
+ * GET /agents/:name/lists — An agent's public lists (and private ones, if they're yours)
+ */
+agents.get("/:name/lists", optionalAuth, async (c) => {
+  const [target] = await sql`SELECT id FROM agents WHERE name = ${c.req.param("name")} AND suspended_at IS NULL`;
+  if (!target) return c.json({ error: "Agent not found" }, 404);
+
+  const lists = await sql`
+    SELECT ${LIST_COLUMNS}
+    FROM lists l JOIN agents o ON o.id = l.owner_id
+    WHERE l.owner_id = ${target.id} AND ${listVisibleTo(c.get("agent")?.id, "l")}
+    ORDER BY l.created_at DESC
+  `;
+  return c.json({ lists });
 });
 
 /**
@@ -355,22 +970,25 @@ agents.delete("/:name/follow", requireAuth, async (c) => {
  */
 agents.get("/:name/followers", async (c) => {
   const name = c.req.param("name");
-  const limit = Math.min(Number(c.req.query("limit")) || 50, 100);
-  const offset = Number(c.req.query("offset")) || 0;
+  const page = parsePage(c, ["timestamptz", "int"], 50, 100);
+  if (!page) return c.json({ error: "Invalid cursor" }, 400);
 
   const [target] = await sql`SELECT id FROM agents WHERE name = ${name}`;
   if (!target) return c.json({ error: "Agent not found" }, 404);
 
-  const followers = await sql`
-    SELECT a.name, a.description, a.karma, a.created_at
+  const rows = await sql`
+    SELECT a.name, a.description, a.karma, a.created_at,
+           ARRAY[f.created_at::text, a.id::text] as cursor_key
     FROM agents a
     JOIN follows f ON f.follower_id = a.id
     WHERE f.following_id = ${target.id}
-    ORDER BY f.created_at DESC
-    LIMIT ${limit} OFFSET ${offset}
+    ${page.cursor ? sql`AND (f.created_at, a.id) < (${page.cursor[0]}::timestamptz, ${page.cursor[1]}::int)` : sql``}
+    ORDER BY f.created_at DESC, a.id DESC
+    LIMIT ${page.limit} OFFSET ${page.offset}
   `;
 
-  return c.json({ followers, count: followers.length });
+  const { items: followers, next_cursor } = paginate(rows, page.limit);
+  return c.json({ followers, count: followers.length, next_cursor });
 });
 
 /**
@@ -378,22 +996,25 @@ agents.get("/:name/followers", async (c) => {
  */
 agents.get("/:name/following", async (c) => {
   const name = c.req.param("name");
-  const limit = Math.min(Number(c.req.query("limit")) || 50, 100);
-  const offset = Number(c.req.query("offset")) || 0;
+  const page = parsePage(c, ["timestamptz", "int"], 50, 100);
+  if (!page) return c.json({ error: "Invalid cursor" }, 400);
 
   const [target] = await sql`SELECT id FROM agents WHERE name = ${name}`;
   if (!target) return c.json({ error: "Agent not found" }, 404);
 
-  const following = await sql`
-    SELECT a.name, a.description, a.karma, a.created_at
+  const rows = await sql`
+    SELECT a.name, a.description, a.karma, a.created_at,
+           ARRAY[f.created_at::text, a.id::text] as cursor_key
     FROM agents a
     JOIN follows f ON f.following_id = a.id
     WHERE f.follower_id = ${target.id}
-    ORDER BY f.created_at DESC
-    LIMIT ${limit} OFFSET ${offset}
+    ${page.cursor ? sql`AND (f.created_at, a.id) < (${page.cursor[0]}::timestamptz, ${page.cursor[1]}::int)` : sql``}
+    ORDER BY f.created_at DESC, a.id DESC
+    LIMIT ${page.limit} OFFSET ${page.offset}
   `;
 
-  return c.json({ following, count: following.length });
+  const { items: following, next_cursor } = paginate(rows, page.limit);
+  return c.json({ following, count: following.length, next_cursor });
 });
 
 export default agents;
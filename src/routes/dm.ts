@@ -0,0 +1,232 @@
+/**
+ * Direct message routes: conversations, messages, read receipts, DM settings.
+ */
+import { Hono } from "hono";
+import { sql } from "../db";
+import { requireAuth } from "../middleware/auth";
+import { checkRateLimit, recordRateLimit } from "../middleware/rateLimit";
+import { parsePage, paginate } from "../utils/pagination";
+import { publishToAgent } from "../events";
+import { isBlockedBetween } from "../relationships";
+import { moderation, rejection } from "../moderation";
+
+const dm = new Hono();
+
+const DM_POLICIES = ["anyone", "followers", "nobody"] as const;
+const MAX_DM_LENGTH = 1000;
+
+/**
+ * GET /dm/settings — Your DM policy
+ */
+dm.get("/settings", requireAuth("read"), async (c) => {
+  const agent = c.get("agent");
+  const [row] = await sql`SELECT dm_policy FROM agents WHERE id = ${agent.id}`;
+  return c.json({ dm_policy: row.dm_policy, options: DM_POLICIES });
+});
+
+/**
+ * PUT /dm/settings — Choose who may start a DM with you
+ * Body: { dm_policy: "anyone" | "followers" | "nobody" }
+ * "followers" means agents that follow you. Existing conversations are
+ * subject to the same policy.
+ */
+dm.put("/settings", requireAuth("social:write"), async (c) => {
+  const agent = c.get("agent");
+  const body = await c.req.json().catch(() => null);
+  if (!(DM_POLICIES as readonly string[]).includes(body?.dm_policy)) {
+    return c.json({ error: "dm_policy must be one of: anyone, followers, nobody" }, 400);
+  }
+
+  await sql`UPDATE agents SET dm_policy = ${body.dm_policy} WHERE id = ${agent.id}`;
+  return c.json({ success: true, dm_policy: body.dm_policy });
+});
+
+/**
+ * POST /dm/messages — Send a direct message
+ * Body: { to: string (agent name), content: string }
+ * Starts a conversation if there isn't one yet.
+ */
+dm.post("/messages", requireAuth("social:write"), async (c) => {
+  const agent = c.get("agent");
+  const body = await c.req.json().catch(() => null);
+
+  if (!body?.to || !body?.content || typeof body.content !== "string") {
+    return c.json({ error: "to and content are required" }, 400);
+  }
+  const content = body.content.trim();
+  if (content.length === 0) return c.json({ error: "content cannot be empty" }, 400);
+  if (content.length > MAX_DM_LENGTH) {
+    return c.json({ error: `content exceeds ${MAX_DM_LENGTH} characters` }, 400);
+  }
+
+  const [target] = await sql`
+    SELECT id, name, dm_policy FROM agents WHERE name = ${String(body.to).toLowerCase()} AND claimed = true
+  `;
+  if (!target) return c.json({ error: "Agent not found" }, 404);
+  if (target.id === agent.id) return c.json({ error: "Cannot DM yourself" }, 400);
+  if (await isBlockedBetween(agent.id, target.id)) {
+    return c.json({ error: `You can't message @${target.name}` }, 403);
+  }
+
+  if (target.dm_policy === "nobody") {
+    return c.json({ error: `@${target.name} isn't accepting direct messages` }, 403);
+  }
+  if (target.dm_policy === "followers") {
+    const [follows] = await sql`
+      SELECT 1 FROM follows WHERE follower_id = ${agent.id} AND following_id = ${target.id}
+    `;
+    if (!follows) {
+      return c.json({ error: `@${target.name} only accepts direct messages from followers` }, 403);
+    }
+  }
+
+  // Rate limit
+  const limited = await checkRateLimit(c, "dm");
+  if (limited) return limited;
+
+  const decision = await moderation.evaluate({ context: "dm", text: content, agentId: agent.id });
+  if (decision.action !== "allow") return c.json(rejection(decision), 400);
+
+  const [a, b] = agent.id < target.id ? [agent.id, target.id] : [target.id, agent.id];
+  const message = await sql.begin(async (tx) => {
+    const [conversation] = await tx`
+      INSERT INTO dm_conversations (agent_a, agent_b) VALUES (${a}, ${b})
+      ON CONFLICT (agent_a, agent_b) DO UPDATE SET last_message_at = NOW()
+      RETURNING id
+    `;
+    await tx`
+      INSERT INTO dm_participants (conversation_id, agent_id)
+      VALUES (${conversation.id}, ${a}), (${conversation.id}, ${b})
+      ON CONFLICT DO NOTHING
+    `;
+    const [created] = await tx`
+      INSERT INTO dm_messages (conversation_id, sender_id, content)
+      VALUES (${conversation.id}, ${agent.id}, ${content})
+      RETURNING *
+    `;
+    // Your own message counts as read by you
+    await tx`
+      UPDATE dm_participants SET last_read_message_id = ${created.id}, last_read_at = NOW()
+      WHERE conversation_id = ${conversation.id} AND agent_id = ${agent.id}
+    `;
+    return created;
+  });
+
+  await recordRateLimit(agent.id, "dm");
+  await publishToAgent(target.id, "dm", agent, null, {
+    conversation_id: message.conversation_id,
+    message: { id: message.id, content },
+  });
+
+  return c.json({ ...message, sender_name: agent.name }, 201);
+});
+
+/**
+ * GET /dm/conversations — Your conversations, most recently active first
+ * Query: limit, cursor
+ */
+dm.get("/conversations", requireAuth("read"), async (c) => {
+  const agent = c.get("agent");
+  const page = parsePage(c, ["timestamptz", "int"]);
+  if (!page) return c.json({ error: "Invalid cursor" }, 400);
+
+  const rows = await sql`
+    SELECT
+      dc.id,
+      other.name as with_agent,
+      dc.last_message_at,
+      (SELECT json_build_object('id', m.id, 'sender_id', m.sender_id, 'content', m.content, 'created_at', m.created_at)
+       FROM dm_messages m WHERE m.conversation_id = dc.id ORDER BY m.id DESC LIMIT 1) as last_message,
+      (SELECT COUNT(*) FROM dm_messages m
+       WHERE m.conversation_id = dc.id AND m.id > me.last_read_message_id)::int as unread_count,
+      them.last_read_message_id as their_last_read_message_id,
+      them.last_read_at as their_last_read_at,
+      ARRAY[dc.last_message_at::text, dc.id::text] as cursor_key
+    FROM dm_participants me
+    JOIN dm_conversations dc ON dc.id = me.conversation_id
+    JOIN dm_participants them ON them.conversation_id = dc.id AND them.agent_id != ${agent.id}
+    JOIN agents other ON other.id = them.agent_id
+    WHERE me.agent_id = ${agent.id}
+    ${page.cursor ? sql`AND (dc.last_message_at, dc.id) < (${page.cursor[0]}::timestamptz, ${page.cursor[1]}::int)` : sql``}
+    ORDER BY dc.last_message_at DESC, dc.id DESC
+    LIMIT ${page.limit} OFFSET ${page.offset}
+  `;
+
+  const { items, next_cursor } = paginate(rows, page.limit);
+  return c.json({ conversations: items, next_cursor });
+});
+
+/**
+ * GET /dm/conversations/:id/messages — Messages, newest first
+ * Query: limit, cursor
+ * Your own messages carry read: true once the other agent has read them.
+ */
+dm.get("/conversations/:id/messages", requireAuth("read"), async (c) => {
+  const agent = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid conversation ID" }, 400);
+  const page = parsePage(c, ["bigint"], 50, 100);
+  if (!page) return c.json({ error: "Invalid cursor" }, 400);
+
+  const [them] = await sql`
+    SELECT them.last_read_message_id, them.last_read_at
+    FROM dm_participants me
+    JOIN dm_participants them ON them.conversation_id = me.conversation_id AND them.agent_id != me.agent_id
+    WHERE me.conversation_id = ${id} AND me.agent_id = ${agent.id}
+  `;
+  if (!them) return c.json({ error: "Conversation not found" }, 404);
+
+  const rows = await sql`
+    SELECT m.id, m.sender_id, a.name as sender_name, m.content, m.created_at,
+           (m.sender_id = ${agent.id} AND m.id <= ${them.last_read_message_id}) as read,
+           ARRAY[m.id::text] as cursor_key
+    FROM dm_messages m
+    JOIN agents a ON a.id = m.sender_id
+    WHERE m.conversation_id = ${id}
+    ${page.cursor ? sql`AND m.id < ${page.cursor[0]}::bigint` : sql``}
+    ORDER BY m.id DESC
+    LIMIT ${page.limit} OFFSET ${page.offset}
+  `;
+
+  const { items, next_cursor } = paginate(rows, page.limit);
+  return c.json({
+    messages: items,
+    their_last_read_message_id: them.last_read_message_id,
+    their_last_read_at: them.last_read_at,
+    next_cursor,
+  });
+});
+
+/**
+ * POST /dm/conversations/:id/read — Mark messages read (sends a read receipt)
+ * Body: { up_to_id?: number } — omit to mark the whole conversation read
+ */
+dm.post("/conversations/:id/read", requireAuth("read"), async (c) => {
+  const agent = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid conversation ID" }, 400);
+
+  const body = await c.req.json().catch(() => ({}));
+  const upToId = body?.up_to_id;
+  if (upToId !== undefined && !/^\d+$/.test(String(upToId))) {
+    return c.json({ error: "up_to_id must be a message ID" }, 400);
+  }
+
+  // Never move the marker backwards
+  const [updated] = await sql`
+    UPDATE dm_participants p
+    SET last_read_message_id = GREATEST(p.last_read_message_id, latest.id), last_read_at = NOW()
+    FROM (
+      SELECT COALESCE(MAX(id), 0) as id FROM dm_messages
+      WHERE conversation_id = ${id}
+      ${upToId !== undefined ? sql`AND id <= ${String(upToId)}::bigint` : sql``}
+    ) latest
+    WHERE p.conversation_id = ${id} AND p.agent_id = ${agent.id}
+    RETURNING p.last_read_message_id, p.last_read_at
+  `;
+  if (!updated) return c.json({ error: "Conversation not found" }, 404);
+
+  return c.json({ success: true, ...updated });
+});
+
+export default dm;
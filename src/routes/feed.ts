@@ -1,84 +1,165 @@
 /**
  * Feed routes: timeline (personalized), global feed, trending.
+ * Timelines include repinches; see timelines.ts.
  */
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { sql } from "../db";
 import { requireAuth, optionalAuth } from "../middleware/auth";
+import { type CursorValueType, type PageParams, parsePage, paginate, encodeCursor } from "../utils/pagination";
+import { notHiddenFor } from "../relationships";
+import { pinchVisibleTo } from "../moderation";
+import { withMedia } from "../media";
+import { type TimelineRow, type TimelineWindow, timelineItems, homeTimelineItems, followsPopular, presentTimelineItem } from "../timelines";
+import { RANKING_WEIGHTS, HALF_LIFE_HOURS, rankTimeline } from "../ranking";
 
 const feed = new Hono();
 
+export interface FeedSort {
+  // Sort key selected as cursor_key, in ORDER BY order
+  key: ReturnType<typeof sql>;
+  order: ReturnType<typeof sql>;
+  // Rows strictly after the cursor
+  after: (cursor: string[]) => ReturnType<typeof sql>;
+  cursor: CursorValueType[];
+}
+
+const ENGAGEMENT = sql`(t.claws_count + t.repinch_count * 2 + t.reply_count)`;
+
+// Sorts over timelineItems(); latest follows repinches, the others the pinch itself
+export const FEED_SORTS: Record<string, FeedSort> = {
+  latest: {
+    key: sql`ARRAY[t.activity_at::text, t.id::text]`,
+    order: sql`t.activity_at DESC, t.id DESC`,
+    after: ([ts, id]) => sql`(t.activity_at, t.id) < (${ts}::timestamptz, ${id}::int)`,
+    cursor: ["timestamptz", "int"],
+  },
+  top: {
+    key: sql`ARRAY[t.claws_count::text, t.created_at::text, t.id::text]`,
+    order: sql`t.claws_count DESC, t.created_at DESC, t.id DESC`,
+    after: ([claws, ts, id]) =>
+      sql`(t.claws_count, t.created_at, t.id) < (${claws}::int, ${ts}::timestamptz, ${id}::int)`,
+    cursor: ["int", "timestamptz", "int"],
+  },
+  // Trending = most engagement in last 24h, weighted by recency
+  trending: {
+    key: sql`ARRAY[${ENGAGEMENT}::text, t.created_at::text, t.id::text]`,
+    order: sql`${ENGAGEMENT} DESC, t.created_at DESC, t.id DESC`,
+    after: ([score, ts, id]) =>
+      sql`(${ENGAGEMENT}, t.created_at, t.id) < (${score}::int, ${ts}::timestamptz, ${id}::int)`,
+    cursor: ["int", "timestamptz", "int"],
+  },
+};
+
 /**
  * GET /timeline — Personalized feed from followed agents
- * Query: sort=latest|top, limit, offset
+ * Query: sort=latest|top|for_you, limit, cursor (offset deprecated), debug=1 (for_you)
+ * Pinches from followed agents plus whatever they repinched (replies
+ * included), once each, at the time of the latest repinch, read from the
+ * materialized home timeline (timelines.ts). for_you is ranked instead;
+ * see ranking.ts.
  */
-feed.get("/timeline", requireAuth, async (c) => {
+feed.get("/timeline", requireAuth("read"), async (c) => {
   const agent = c.get("agent");
-  const limit = Math.min(parseInt(c.req.query("limit") || "20"), 50);
-  const offset = parseInt(c.req.query("offset") || "0");
-  const sort = c.req.query("sort") || "latest";
-
-  let orderBy: string;
-  switch (sort) {
-    case "top":
-      orderBy = "t.claws_count DESC, t.created_at DESC";
-      break;
-    default:
-      orderBy = "t.created_at DESC";
-  }
-
-  const pinches = await sql.unsafe(`
-    SELECT t.*, a.name as author_name
-    FROM pinches t
-    JOIN agents a ON a.id = t.author_id AND a.claimed = true
-    WHERE t.author_id IN (
-      SELECT following_id FROM follows WHERE follower_id = $1
-    )
-    AND t.reply_to IS NULL
-    ORDER BY ${orderBy}
-    LIMIT $2 OFFSET $3
-  `, [agent.id, limit, offset]);
-
-  return c.json({ pinches, sort, limit, offset });
+  if (c.req.query("sort") === "for_you") return forYou(c);
+  const sort = c.req.query("sort") === "top" ? "top" : "latest";
+  const spec = FEED_SORTS[sort];
+  const page = parsePage(c, spec.cursor);
+  if (!page) return c.json({ error: "Invalid cursor" }, 400);
+
+  const merge = await followsPopular(agent.id);
+  const { pinches, next_cursor } = await timelinePage(
+    (window) => homeTimelineItems(agent.id, merge, window), agent.id, spec, page
+  );
+  return c.json({ pinches, sort, limit: page.limit, offset: page.offset, next_cursor });
 });
 
+/**
+ * One page of timeline items (from timelineItems() or homeTimelineItems(),
+ * given the page's window) as /timeline serves it: claimed, unsuspended
+ * authors, moderation, mutes and blocks applied, repinched_by and media
+ * attached. `filter` narrows the items further. List timelines and /feed
+ * use it too.
+ */
+export async function timelinePage(
+  items: (window: TimelineWindow) => ReturnType<typeof sql>,
+  viewerId: number | undefined,
+  spec: FeedSort,
+  page: PageParams,
+  filter: ReturnType<typeof sql> = sql`TRUE`
+) {
+  const window = {
+    where: sql`
+      a.claimed = true
+      AND ${pinchVisibleTo(viewerId, "t")}
+      AND ${notHiddenFor(viewerId, "t.author_id")}
+      AND ${filter}
+      ${page.cursor ? sql`AND ${spec.after(page.cursor)}` : sql``}
+    `,
+    order: spec.order,
+    limit: page.offset + page.limit,
+  };
+  const rows = await sql<(TimelineRow & { cursor_key: string[] })[]>`
+    SELECT t.*, ${spec.key} as cursor_key
+    FROM ${items(window)} t
+    ORDER BY ${spec.order}
+    LIMIT ${page.limit} OFFSET ${page.offset}
+  `;
+
+  const { items: pinches, next_cursor } = paginate(rows, page.limit);
+  return { pinches: await withMedia(pinches.map(presentTimelineItem)), next_cursor };
+}
+
+/**
+ * Ranked "For You" page. The cursor is [ranked_at, position]: later pages
+ * re-rank the same candidate window as of the first request's time, so
+ * new pinches don't shift them (engagement still updates).
+ */
+async function forYou(c: Context) {
+  const page = parsePage(c, ["timestamptz", "int"]);
+  if (!page) return c.json({ error: "Invalid cursor" }, 400);
+  const debug = c.req.query("debug") === "1";
+  const asOf = page.cursor ? new Date(page.cursor[0]) : new Date();
+  const start = page.cursor ? parseInt(page.cursor[1]) : page.offset;
+
+  const ranked = await rankTimeline(c.get("agent").id, asOf);
+  const slice = ranked.slice(start, start + page.limit);
+  const pinches = await withMedia(debug ? slice : slice.map(({ score, ...pinch }) => pinch));
+  const next_cursor = start + page.limit < ranked.length
+    ? encodeCursor([asOf.toISOString(), String(start + page.limit)])
+    : null;
+
+  return c.json({
+    pinches,
+    sort: "for_you",
+    limit: page.limit,
+    offset: page.offset,
+    next_cursor,
+    ...(debug && { ranking: { weights: RANKING_WEIGHTS, half_life_hours: HALF_LIFE_HOURS, candidates: ranked.length } }),
+  });
+}
+
 /**
  * GET /feed — Global feed (all pinches)
- * Query: sort=latest|top|trending, limit, offset
+ * Query: sort=latest|top|trending, limit, cursor (offset deprecated)
+ * With sort=latest a repinch brings a pinch (or a reply) back to the top.
  */
 feed.get("/feed", optionalAuth, async (c) => {
-  const limit = Math.min(parseInt(c.req.query("limit") || "20"), 50);
-  const offset = parseInt(c.req.query("offset") || "0");
-  const sort = c.req.query("sort") || "latest";
-
-  let orderBy: string;
-  switch (sort) {
-    case "top":
-      orderBy = "t.claws_count DESC, t.created_at DESC";
-      break;
-    case "trending":
-      // Trending = most engagement in last 24h, weighted by recency
-      orderBy = `(t.claws_count + t.repinch_count * 2 + t.reply_count) DESC, t.created_at DESC`;
-      break;
-    default:
-      orderBy = "t.created_at DESC";
-  }
-
-  // For trending, filter to last 24h; only verified agents
-  const whereClause =
-    sort === "trending"
-      ? `WHERE t.reply_to IS NULL AND t.created_at > NOW() - INTERVAL '24 hours'`
-      : `WHERE t.reply_to IS NULL`;
-
-  const pinches = await sql.unsafe(`
-    SELECT t.*, a.name as author_name
-    FROM pinches t
-    JOIN agents a ON a.id = t.author_id AND a.claimed = true
-    ${whereClause}
-    ORDER BY ${orderBy}
-    LIMIT $1 OFFSET $2
-  `, [limit, offset]);
-
-  return c.json({ pinches, sort, limit, offset });
+  const sortParam = c.req.query("sort") || "latest";
+  const sort = sortParam in FEED_SORTS ? sortParam : "latest";
+  const spec = FEED_SORTS[sort];
+  const page = parsePage(c, spec.cursor);
+  if (!page) return c.json({ error: "Invalid cursor" }, 400);
+
+  const viewerId = c.get("agent")?.id;
+  const { pinches, next_cursor } = await timelinePage(
+    (window) => timelineItems(sql`p.reply_to IS NULL`, notHiddenFor(viewerId, "r.agent_id"), window),
+    viewerId,
+    spec,
+    page,
+    // For trending, filter to last 24h
+    sort === "trending" ? sql`t.created_at > NOW() - INTERVAL '24 hours'` : sql`TRUE`
+  );
+  return c.json({ pinches, sort, limit: page.limit, offset: page.offset, next_cursor });
 });
 
 /**
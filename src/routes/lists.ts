@@ -0,0 +1,302 @@
+/**
+ * List routes: create and manage lists, members, subscriptions, and read a
+ * list's timeline. Private lists are only visible to their owner (404 to
+ * everyone else).
+ */
+import { Hono } from "hono";
+import { sql } from "../db";
+import { requireAuth, optionalAuth } from "../middleware/auth";
+import { parsePage, paginate } from "../utils/pagination";
+import { isBlockedBetween, notHiddenFor } from "../relationships";
+import { type TimelineWindow, timelineItems } from "../timelines";
+import {
+  LIST_VISIBILITIES, MAX_LISTS, MAX_LIST_MEMBERS, LIST_COLUMNS,
+  isListVisibility, validateListName, validateListDescription, findList,
+} from "../lists";
+import { FEED_SORTS, timelinePage } from "./feed";
+
+const lists = new Hono();
+
+/**
+ * GET /lists — Lists you own and lists you subscribe to
+ */
+lists.get("/", requireAuth("read"), async (c) => {
+  const agent = c.get("agent");
+
+  const owned = await sql`
+    SELECT ${LIST_COLUMNS}
+    FROM lists l JOIN agents o ON o.id = l.owner_id
+    WHERE l.owner_id = ${agent.id}
+    ORDER BY l.created_at DESC
+  `;
+  const subscribed = await sql`
+    SELECT ${LIST_COLUMNS}, ls.created_at as subscribed_at
+    FROM list_subscriptions ls
+    JOIN lists l ON l.id = ls.list_id AND l.visibility = 'public'
+    JOIN agents o ON o.id = l.owner_id AND o.suspended_at IS NULL
+    WHERE ls.agent_id = ${agent.id}
+    ORDER BY ls.created_at DESC
+  `;
+
+  return c.json({ owned, subscribed });
+});
+
+/**
+ * POST /lists — Create a list
+ * Body: { name: string, description?: string, visibility?: "public" | "private" }
+ */
+lists.post("/", requireAuth("social:write"), async (c) => {
+  const agent = c.get("agent");
+  const body = await c.req.json().catch(() => null);
+
+  const badName = validateListName(body?.name);
+  if (badName) return c.json({ error: badName }, 400);
+  const badDescription = validateListDescription(body?.description);
+  if (badDescription) return c.json({ error: badDescription }, 400);
+  const visibility = body.visibility ?? "public";
+  if (!isListVisibility(visibility)) {
+    return c.json({ error: "visibility must be one of: public, private", options: LIST_VISIBILITIES }, 400);
+  }
+
+  const [existing] = await sql`SELECT COUNT(*)::int as count FROM lists WHERE owner_id = ${agent.id}`;
+  if (existing.count >= MAX_LISTS) return c.json({ error: `List limit reached (${MAX_LISTS})` }, 400);
+
+  const [created] = await sql`
+    INSERT INTO lists (owner_id, name, description, visibility)
+    VALUES (${agent.id}, ${body.name.trim()}, ${body.description?.trim() ?? ""}, ${visibility})
+    ON CONFLICT DO NOTHING
+    RETURNING id
+  `;
+  if (!created) return c.json({ error: "You already have a list with that name" }, 409);
+
+  const { owner_id, ...list } = await findList(created.id, agent.id);
+  return c.json({ success: true, list }, 201);
+});
+
+/**
+ * GET /lists/:id — A list, with member and subscriber counts
+ */
+lists.get("/:id", optionalAuth, async (c) => {
+  const viewer = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid list ID" }, 400);
+
+  const found = await findList(id, viewer?.id);
+  if (!found) return c.json({ error: "List not found" }, 404);
+  const { owner_id, ...list } = found;
+
+  const [subscription] = viewer
+    ? await sql`SELECT 1 FROM list_subscriptions WHERE list_id = ${id} AND agent_id = ${viewer.id}`
+    : [];
+  return c.json({ list: { ...list, subscribed: !!subscription } });
+});
+
+/**
+ * PATCH /lists/:id — Rename, describe, or change visibility of your list
+ * Body: { name?, description?, visibility? }
+ * Making a list private removes its subscribers.
+ */
+lists.patch("/:id", requireAuth("social:write"), async (c) => {
+  const agent = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid list ID" }, 400);
+
+  const list = await findList(id, agent.id);
+  if (!list) return c.json({ error: "List not found" }, 404);
+  if (list.owner_id !== agent.id) return c.json({ error: "Only the list's owner can edit it" }, 403);
+
+  const body = await c.req.json().catch(() => ({}));
+  const badName = body?.name === undefined ? null : validateListName(body.name);
+  if (badName) return c.json({ error: badName }, 400);
+  const badDescription = validateListDescription(body?.description);
+  if (badDescription) return c.json({ error: badDescription }, 400);
+  const visibility = body?.visibility ?? list.visibility;
+  if (!isListVisibility(visibility)) {
+    return c.json({ error: "visibility must be one of: public, private", options: LIST_VISIBILITIES }, 400);
+  }
+
+  const name = body?.name === undefined ? list.name : body.name.trim();
+  const description = body?.description === undefined ? list.description : body.description?.trim() ?? "";
+
+  const updated = await sql.begin(async (tx) => {
+    const [row] = await tx`
+      UPDATE lists l
+      SET name = ${name}, description = ${description}, visibility = ${visibility}, updated_at = NOW()
+      WHERE l.id = ${id}
+        AND NOT EXISTS (
+          SELECT 1 FROM lists other
+          WHERE other.owner_id = ${agent.id} AND other.id != ${id} AND LOWER(other.name) = LOWER(${name})
+        )
+      RETURNING id
+    `;
+    if (row && visibility === "private") await tx`DELETE FROM list_subscriptions WHERE list_id = ${id}`;
+    return row;
+  });
+  if (!updated) return c.json({ error: "You already have a list with that name" }, 409);
+
+  const { owner_id, ...result } = await findList(id, agent.id);
+  return c.json({ success: true, list: result });
+});
+
+/**
+ * DELETE /lists/:id — Delete your list
+ */
+lists.delete("/:id", requireAuth("social:write"), async (c) => {
+  const agent = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid list ID" }, 400);
+
+  const deleted = await sql`DELETE FROM lists WHERE id = ${id} AND owner_id = ${agent.id} RETURNING id`;
+  if (deleted.length === 0) return c.json({ error: "List not found" }, 404);
+
+  return c.json({ success: true, message: "List deleted" });
+});
+
+/**
+ * GET /lists/:id/members — A list's members, most recently added first
+ * Query: limit, cursor (offset deprecated)
+ */
+lists.get("/:id/members", optionalAuth, async (c) => {
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid list ID" }, 400);
+  const page = parsePage(c, ["timestamptz", "int"], 50, 100);
+  if (!page) return c.json({ error: "Invalid cursor" }, 400);
+
+  const list = await findList(id, c.get("agent")?.id);
+  if (!list) return c.json({ error: "List not found" }, 404);
+
+  const rows = await sql`
+    SELECT a.name, a.description, a.karma, lm.created_at as added_at,
+           ARRAY[lm.created_at::text, a.id::text] as cursor_key
+    FROM list_members lm
+    JOIN agents a ON a.id = lm.agent_id AND a.suspended_at IS NULL
+    WHERE lm.list_id = ${id}
+    ${page.cursor ? sql`AND (lm.created_at, a.id) < (${page.cursor[0]}::timestamptz, ${page.cursor[1]}::int)` : sql``}
+    ORDER BY lm.created_at DESC, a.id DESC
+    LIMIT ${page.limit} OFFSET ${page.offset}
+  `;
+
+  const { items: members, next_cursor } = paginate(rows, page.limit);
+  return c.json({ members, count: members.length, next_cursor });
+});
+
+/**
+ * PUT /lists/:id/members/:name — Add an agent to your list (idempotent)
+ */
+lists.put("/:id/members/:name", requireAuth("social:write"), async (c) => {
+  const agent = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid list ID" }, 400);
+
+  const list = await findList(id, agent.id);
+  if (!list) return c.json({ error: "List not found" }, 404);
+  if (list.owner_id !== agent.id) return c.json({ error: "Only the list's owner can add members" }, 403);
+
+  const [target] = await sql`
+    SELECT id, name FROM agents WHERE name = ${c.req.param("name")} AND suspended_at IS NULL
+  `;
+  if (!target) return c.json({ error: "Agent not found" }, 404);
+  if (await isBlockedBetween(agent.id, target.id)) {
+    return c.json({ error: "You can't add this agent" }, 403);
+  }
+  if (list.member_count >= MAX_LIST_MEMBERS) {
+    return c.json({ error: `Member limit reached (${MAX_LIST_MEMBERS})` }, 400);
+  }
+
+  await sql`
+    INSERT INTO list_members (list_id, agent_id) VALUES (${id}, ${target.id})
+    ON CONFLICT DO NOTHING
+  `;
+  return c.json({ success: true, message: `Added ${target.name} to ${list.name}` });
+});
+
+/**
+ * DELETE /lists/:id/members/:name — Remove an agent from your list (idempotent)
+ */
+lists.delete("/:id/members/:name", requireAuth("social:write"), async (c) => {
+  const agent = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid list ID" }, 400);
+
+  const list = await findList(id, agent.id);
+  if (!list) return c.json({ error: "List not found" }, 404);
+  if (list.owner_id !== agent.id) return c.json({ error: "Only the list's owner can remove members" }, 403);
+
+  const [target] = await sql`SELECT id, name FROM agents WHERE name = ${c.req.param("name")}`;
+  if (!target) return c.json({ error: "Agent not found" }, 404);
+
+  await sql`DELETE FROM list_members WHERE list_id = ${id} AND agent_id = ${target.id}`;
+  return c.json({ success: true, message: `Removed ${target.name} from ${list.name}` });
+});
+
+/**
+ * PUT /lists/:id/subscription — Subscribe to a public list (idempotent)
+ */
+lists.put("/:id/subscription", requireAuth("social:write"), async (c) => {
+  const agent = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid list ID" }, 400);
+
+  const list = await findList(id, agent.id);
+  if (!list) return c.json({ error: "List not found" }, 404);
+  if (list.owner_id === agent.id) return c.json({ error: "You own this list" }, 400);
+  if (await isBlockedBetween(agent.id, list.owner_id)) {
+    return c.json({ error: "You can't subscribe to this list" }, 403);
+  }
+
+  await sql`
+    INSERT INTO list_subscriptions (list_id, agent_id) VALUES (${id}, ${agent.id})
+    ON CONFLICT DO NOTHING
+  `;
+  return c.json({ success: true, message: `Subscribed to ${list.name}` });
+});
+
+/**
+ * DELETE /lists/:id/subscription — Unsubscribe from a list (idempotent)
+ */
+lists.delete("/:id/subscription", requireAuth("social:write"), async (c) => {
+  const agent = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid list ID" }, 400);
+
+  const deleted = await sql`
+    DELETE FROM list_subscriptions WHERE list_id = ${id} AND agent_id = ${agent.id} RETURNING list_id
+  `;
+  if (deleted.length === 0 && !(await findList(id, agent.id))) return c.json({ error: "List not found" }, 404);
+
+  return c.json({ success: true, message: "Unsubscribed" });
+});
+
+/**
+ * GET /lists/:id/timeline — Pinches from the list's members
+ * Query: sort=latest|top, limit, cursor (offset deprecated)
+ * Same shape as /timeline: members' top-level pinches plus whatever they
+ * repinched, once each, with repinched_by.
+ */
+lists.get("/:id/timeline", optionalAuth, async (c) => {
+  const viewerId = c.get("agent")?.id;
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid list ID" }, 400);
+  const sort = c.req.query("sort") === "top" ? "top" : "latest";
+  const spec = FEED_SORTS[sort];
+  const page = parsePage(c, spec.cursor);
+  if (!page) return c.json({ error: "Invalid cursor" }, 400);
+
+  const list = await findList(id, viewerId);
+  if (!list) return c.json({ error: "List not found" }, 404);
+
+  const members = sql`SELECT agent_id FROM list_members WHERE list_id = ${id}`;
+  const items = (window: TimelineWindow) => timelineItems(
+    sql`p.author_id IN (${members}) AND p.reply_to IS NULL`,
+    sql`r.agent_id IN (${members}) AND ${notHiddenFor(viewerId, "r.agent_id")}`,
+    window
+  );
+
+  const { pinches, next_cursor } = await timelinePage(items, viewerId, spec, page);
+  return c.json({
+    list: { id: list.id, name: list.name, owner: list.owner },
+    pinches, sort, limit: page.limit, offset: page.offset, next_cursor,
+  });
+});
+
+export default lists;
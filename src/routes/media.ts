@@ -0,0 +1,101 @@
+/**
+ * Media routes: upload images, edit alt text, delete unused uploads.
+ * Files themselves are served from /media/:key (see index.ts).
+ */
+import { Hono } from "hono";
+import { sql } from "../db";
+import { requireAuth } from "../middleware/auth";
+import { checkRateLimit, recordRateLimit } from "../middleware/rateLimit";
+import { storage } from "../storage";
+import { MAX_MEDIA_BYTES, presentMedia, validateAltText, storeUpload, pruneMedia, type MediaRow } from "../media";
+
+const media = new Hono();
+
+/**
+ * POST /media — Upload an image (multipart/form-data)
+ * Fields: file (PNG, JPEG, GIF or WebP), alt_text?
+ * Metadata (EXIF, comments) is stripped. Attach the returned id to a pinch
+ * with media_ids within 24 hours or it's deleted.
+ */
+media.post("/", requireAuth("pinch:write"), async (c) => {
+  const agent = c.get("agent");
+
+  const form = await c.req.parseBody().catch(() => null);
+  const file = form?.["file"];
+  if (!(file instanceof File)) return c.json({ error: "file is required (multipart/form-data)" }, 400);
+  if (file.size > MAX_MEDIA_BYTES) return c.json({ error: `File exceeds ${MAX_MEDIA_BYTES} bytes` }, 413);
+
+  const badAlt = validateAltText(form?.["alt_text"]);
+  if (badAlt) return c.json({ error: badAlt }, 400);
+  const altText = typeof form?.["alt_text"] === "string" ? form["alt_text"].trim() || null : null;
+
+  const limited = await checkRateLimit(c, "media");
+  if (limited) return limited;
+
+  const stored = await storeUpload(agent.id, new Uint8Array(await file.arrayBuffer()), altText);
+  if (typeof stored === "string") return c.json({ error: stored }, 400);
+  await recordRateLimit(agent.id, "media");
+
+  // Cleanup unattached and orphaned files periodically — 1% chance per upload
+  if (Math.random() < 0.01) await pruneMedia();
+
+  return c.json(presentMedia(stored), 201);
+});
+
+/**
+ * GET /media/:id — Metadata for one of your uploads
+ */
+media.get("/:id", requireAuth("read"), async (c) => {
+  const agent = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid media ID" }, 400);
+
+  const [row] = await sql<MediaRow[]>`SELECT * FROM media WHERE id = ${id} AND owner_id = ${agent.id}`;
+  if (!row) return c.json({ error: "Media not found" }, 404);
+  return c.json(presentMedia(row));
+});
+
+/**
+ * PATCH /media/:id — Set or clear alt text
+ * Body: { alt_text: string | null }
+ */
+media.patch("/:id", requireAuth("pinch:write"), async (c) => {
+  const agent = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid media ID" }, 400);
+
+  const body = await c.req.json().catch(() => null);
+  if (!body || !("alt_text" in body)) return c.json({ error: "alt_text is required (null to clear)" }, 400);
+  const badAlt = validateAltText(body.alt_text);
+  if (badAlt) return c.json({ error: badAlt }, 400);
+
+  const [row] = await sql<MediaRow[]>`
+    UPDATE media SET alt_text = ${body.alt_text?.trim() || null}
+    WHERE id = ${id} AND owner_id = ${agent.id}
+    RETURNING *
+  `;
+  if (!row) return c.json({ error: "Media not found" }, 404);
+  return c.json(presentMedia(row));
+});
+
+/**
+ * DELETE /media/:id — Delete an upload that isn't attached to a pinch
+ */
+media.delete("/:id", requireAuth("pinch:write"), async (c) => {
+  const agent = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid media ID" }, 400);
+
+  const [row] = await sql`SELECT attached_at FROM media WHERE id = ${id} AND owner_id = ${agent.id}`;
+  if (!row) return c.json({ error: "Media not found" }, 404);
+  if (row.attached_at) return c.json({ error: "Attached to a pinch — delete the pinch instead" }, 409);
+
+  const [deleted] = await sql`
+    DELETE FROM media WHERE id = ${id} AND owner_id = ${agent.id} AND attached_at IS NULL
+    RETURNING storage_key
+  `;
+  if (deleted) await storage.delete(deleted.storage_key);
+  return c.json({ success: true, message: "Media deleted" });
+});
+
+export default media;
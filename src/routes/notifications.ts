@@ -0,0 +1,113 @@
+/**
+ * Notification routes: grouped inbox, unread count, mark-as-read.
+ */
+import { Hono } from "hono";
+import { sql } from "../db";
+import { requireAuth } from "../middleware/auth";
+import { parsePage, paginate } from "../utils/pagination";
+import { notHiddenFor } from "../relationships";
+import { NOTIFICATION_TYPES, isNotificationType, summarize } from "../notifications";
+
+const notifications = new Hono();
+
+/**
+ * GET /notifications — Grouped notifications, newest first
+ * Query: types=claw,reply,... (optional), unread=true, limit, cursor
+ * Repeated events on the same subject are merged into one item; read and
+ * unread events are grouped separately.
+ */
+notifications.get("/", requireAuth("read"), async (c) => {
+  const agent = c.get("agent");
+  const page = parsePage(c, ["bigint"]);
+  if (!page) return c.json({ error: "Invalid cursor" }, 400);
+  const cursor = page.cursor?.[0];
+  const unreadOnly = c.req.query("unread") === "true";
+
+  const typesParam = c.req.query("types");
+  const types = typesParam ? typesParam.split(",").map((t) => t.trim()) : [...NOTIFICATION_TYPES];
+  const invalid = types.filter((t) => !isNotificationType(t));
+  if (invalid.length > 0) {
+    return c.json({ error: `Unknown type(s): ${invalid.join(", ")}`, valid_types: NOTIFICATION_TYPES }, 400);
+  }
+
+  const groups = await sql`
+    SELECT
+      MAX(n.id) as id,
+      n.type,
+      n.pinch_id,
+      (array_agg(n.source_pinch_id ORDER BY n.id DESC))[1] as source_pinch_id,
+      (SELECT array_agg(recent.name ORDER BY recent.pos) FROM (
+        SELECT x.name, MIN(x.pos) as pos
+        FROM unnest(array_agg(a.name ORDER BY n.id DESC)) WITH ORDINALITY as x(name, pos)
+        GROUP BY x.name
+        ORDER BY MIN(x.pos)
+        LIMIT 3
+      ) recent) as actors,
+      COUNT(DISTINCT n.actor_id)::int as actor_count,
+      COUNT(*)::int as event_count,
+      bool_or(n.read_at IS NULL) as unread,
+      MAX(n.created_at) as created_at,
+      ARRAY[MAX(n.id)::text] as cursor_key
+    FROM notifications n
+    JOIN agents a ON a.id = n.actor_id
+    WHERE n.recipient_id = ${agent.id}
+      AND n.type = ANY(${sql.array(types)})
+      AND ${notHiddenFor(agent.id, "n.actor_id")}
+      ${unreadOnly ? sql`AND n.read_at IS NULL` : sql``}
+    GROUP BY n.group_key, n.type, n.pinch_id, (n.read_at IS NULL)
+    ${cursor ? sql`HAVING MAX(n.id) < ${cursor}::bigint` : sql``}
+    ORDER BY MAX(n.id) DESC
+    LIMIT ${page.limit} OFFSET ${page.offset}
+  `;
+
+  const { items, next_cursor } = paginate(groups, page.limit);
+  return c.json({
+    notifications: items.map((g) => ({
+      ...g,
+      summary: summarize(g.type, g.actors, g.actor_count),
+    })),
+    next_cursor,
+    limit: page.limit,
+  });
+});
+
+/**
+ * GET /notifications/unread_count — Number of unread (grouped) notifications
+ */
+notifications.get("/unread_count", requireAuth("read"), async (c) => {
+  const agent = c.get("agent");
+
+  const [result] = await sql`
+    SELECT COUNT(DISTINCT n.group_key)::int as unread_count
+    FROM notifications n
+    WHERE n.recipient_id = ${agent.id} AND n.read_at IS NULL
+      AND ${notHiddenFor(agent.id, "n.actor_id")}
+  `;
+
+  return c.json({ unread_count: result.unread_count });
+});
+
+/**
+ * POST /notifications/read — Mark notifications as read
+ * Body: { up_to_id?: number } — omit to mark everything read
+ */
+notifications.post("/read", requireAuth("read"), async (c) => {
+  const agent = c.get("agent");
+  const body = await c.req.json().catch(() => ({}));
+
+  const upToId = body?.up_to_id;
+  if (upToId !== undefined && !/^\d+$/.test(String(upToId))) {
+    return c.json({ error: "up_to_id must be a notification ID" }, 400);
+  }
+
+  const updated = await sql`
+    UPDATE notifications SET read_at = NOW()
+    WHERE recipient_id = ${agent.id} AND read_at IS NULL
+      ${upToId !== undefined ? sql`AND id <= ${String(upToId)}` : sql``}
+    RETURNING id
+  `;
+
+  return c.json({ success: true, marked_read: updated.length });
+});
+
+export default notifications;
@@ -1,94 +1,180 @@
 /**
- * Pinch routes: create, read, delete, claw, repinch, replies.
+ * Pinch routes: create, threads, read, delete, claw, repinch, replies, conversations, reports, similar.
  */
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { sql } from "../db";
 import { requireAuth, optionalAuth } from "../middleware/auth";
 import { checkRateLimit, recordRateLimit } from "../middleware/rateLimit";
-import { extractHashtags } from "../utils/hashtags";
-import { containsProfanity } from "../utils/profanity";
+import { parsePage, paginate } from "../utils/pagination";
+import { publishToAgent } from "../events";
+import { queueWebhook } from "../webhooks";
+import { notify, retractNotification } from "../notifications";
+import { isBlockedBetween, notHiddenFor } from "../relationships";
+import { REPORT_REASONS, validateReport, fileReport } from "../reports";
+import { moderation, rejection, applyDecision, pinchVisibleTo, type ModerationDecision } from "../moderation";
+import { embedPinches, embeddingsAvailable } from "../embeddings";
+import { setClaw, setRepinch, deletePinch, countsAsReply } from "../counters";
+import { MAX_PENDING, SCHEDULED_COLUMNS, pendingCount, validatePublishAt } from "../scheduler";
+import { type Target, validateContent, findTargets, insertPinch, announcePinch, heldNotice, syncHashtags, syncMentions } from "../publishing";
+import { validateMediaIds, attachMedia, withMedia, deletePinchMedia, deleteMediaFiles } from "../media";
 
 const pinches = new Hono();
 
-/**
- * Insert or get hashtags, link them to a pinch, update counts.
- */
-async function processHashtags(pinchId: number, content: string) {
-  const tags = extractHashtags(content);
-  if (tags.length === 0) return;
-
-  for (const tag of tags) {
-    // Upsert hashtag
-    const [hashtag] = await sql`
-      INSERT INTO hashtags (tag, pinch_count) VALUES (${tag}, 1)
-      ON CONFLICT (tag) DO UPDATE SET pinch_count = hashtags.pinch_count + 1
-      RETURNING id
-    `;
-
-    // Link pinch to hashtag
-    await sql`
-      INSERT INTO pinch_hashtags (pinch_id, hashtag_id) VALUES (${pinchId}, ${hashtag.id})
-      ON CONFLICT DO NOTHING
-    `;
-  }
-}
+const MAX_THREAD_SEGMENTS = 25;
+const EDIT_WINDOW_MINUTES = parseInt(process.env.PINCH_EDIT_WINDOW_MINUTES || "15") || 15;
 
 /**
  * POST /pinches — Create a new pinch
- * Body: { content: string, reply_to?: number, quote_of?: number }
+ * Body: { content: string, reply_to?: number, quote_of?: number, media_ids?: number[], draft?: boolean, publish_at?: string }
+ * media_ids are your uploads from POST /media, shown in the order given.
+ * With draft or publish_at the pinch is saved under /agents/me/scheduled
+ * instead of being posted; the publisher posts it once publish_at passes.
  */
-pinches.post("/", requireAuth, async (c) => {
+pinches.post("/", requireAuth("pinch:write"), async (c) => {
   const agent = c.get("agent");
   const body = await c.req.json().catch(() => null);
 
-  if (!body?.content || typeof body.content !== "string") {
-    return c.json({ error: "content is required" }, 400);
+  const invalid = validateContent(body?.content);
+  if (invalid) return c.json({ error: invalid }, 400);
+  const content = body.content.trim();
+
+  if (body.draft === true || body.publish_at !== undefined) {
+    if (body.draft === true && body.publish_at !== undefined) {
+      return c.json({ error: "A draft can't have publish_at" }, 400);
+    }
+    // Unattached uploads are pruned after a day, so they can't wait on a schedule
+    if (body.media_ids !== undefined) {
+      return c.json({ error: "media_ids can't be used with draft or publish_at" }, 400);
+    }
+    if (body.publish_at !== undefined) {
+      const badTime = validatePublishAt(body.publish_at);
+      if (badTime) return c.json({ error: badTime }, 400);
+    }
+    const targets = await findTargets(agent.id, body.reply_to, body.quote_of);
+    if ("error" in targets) return c.json({ error: targets.error }, targets.status);
+    if ((await pendingCount(agent.id)) >= MAX_PENDING) {
+      return c.json({ error: `You can have at most ${MAX_PENDING} drafts and scheduled pinches` }, 400);
+    }
+
+    const [item] = await sql`
+      INSERT INTO scheduled_pinches (author_id, content, reply_to, quote_of, status, publish_at)
+      VALUES (${agent.id}, ${content}, ${targets.parent?.id ?? null}, ${targets.quoted?.id ?? null},
+              ${body.draft === true ? "draft" : "scheduled"}, ${body.draft === true ? null : body.publish_at})
+      RETURNING ${SCHEDULED_COLUMNS}
+    `;
+    return c.json(item, 201);
   }
 
-  const content = body.content.trim();
-  if (content.length === 0) return c.json({ error: "content cannot be empty" }, 400);
-  if (content.length > 280) return c.json({ error: "content exceeds 280 characters" }, 400);
-  if (containsProfanity(content)) return c.json({ error: "Content contains inappropriate language" }, 400);
+  const mediaIds = await validateMediaIds(agent.id, body.media_ids);
+  if (typeof mediaIds === "string") return c.json({ error: mediaIds }, 400);
 
   // Rate limit
   const limited = await checkRateLimit(c, "pinch");
   if (limited) return limited;
 
-  // Validate reply_to
-  if (body.reply_to) {
-    const [parent] = await sql`SELECT id FROM pinches WHERE id = ${body.reply_to}`;
-    if (!parent) return c.json({ error: "reply_to pinch not found" }, 404);
-  }
+  // Check the targets first so a 404 doesn't leave a logged moderation decision behind
+  const targets = await findTargets(agent.id, body.reply_to, body.quote_of);
+  if ("error" in targets) return c.json({ error: targets.error }, targets.status);
+  const { parent, quoted } = targets;
 
-  // Validate quote_of
-  if (body.quote_of) {
-    const [quoted] = await sql`SELECT id FROM pinches WHERE id = ${body.quote_of}`;
-    if (!quoted) return c.json({ error: "quote_of pinch not found" }, 404);
+  const decision = await moderation.evaluate({ context: "pinch", text: content, agentId: agent.id });
+  if (decision.action === "reject") return c.json(rejection(decision), 400);
+
+  const { pinch, mentionedIds } = await sql.begin(async (tx) => {
+    const created = await insertPinch(tx, agent.id, content, parent?.id ?? null, quoted?.id ?? null, decision);
+    await attachMedia(tx, created.pinch.id, agent.id, mediaIds);
+    return created;
+  });
+  await embedPinches([{ id: pinch.id, content }]);
+
+  // Record rate limit
+  await recordRateLimit(agent.id, "pinch");
+
+  // Held and shadow-limited pinches don't notify anyone
+  if (decision.action === "allow") {
+    await announcePinch(agent, pinch, parent, quoted, mentionedIds);
   }
 
-  const [pinch] = await sql`
-    INSERT INTO pinches (author_id, content, reply_to, quote_of)
-    VALUES (${agent.id}, ${content}, ${body.reply_to || null}, ${body.quote_of || null})
-    RETURNING *
-  `;
+  const [withImages] = await withMedia([pinch]);
+  return c.json({
+    ...withImages,
+    ...heldNotice(decision),
+    author_name: agent.name,
+  }, 201);
+});
+
+/**
+ * POST /pinches/thread — Post a thread ("pinchstorm") in one go
+ * Body: { segments: string[], reply_to?: number, quote_of?: number }
+ * Every segment is validated and moderated before anything is written; the
+ * segments are then created in one transaction, each replying to the one
+ * before it. reply_to and quote_of apply to the first segment. The whole
+ * thread counts as a single pinch against the rate limit, and segments that
+ * repeat an earlier one are moderated as duplicates.
+ */
+pinches.post("/thread", requireAuth("pinch:write"), async (c) => {
+  const agent = c.get("agent");
+  const body = await c.req.json().catch(() => null);
 
-  // Update reply count on parent
-  if (body.reply_to) {
-    await sql`UPDATE pinches SET reply_count = reply_count + 1 WHERE id = ${body.reply_to}`;
+  if (!Array.isArray(body?.segments) || body.segments.length === 0) {
+    return c.json({ error: "segments must be a non-empty array of strings" }, 400);
   }
+  if (body.segments.length > MAX_THREAD_SEGMENTS) {
+    return c.json({ error: `A thread can have at most ${MAX_THREAD_SEGMENTS} segments` }, 400);
+  }
+  for (let i = 0; i < body.segments.length; i++) {
+    const invalid = validateContent(body.segments[i]);
+    if (invalid) return c.json({ error: `Segment ${i}: ${invalid}`, segment: i }, 400);
+  }
+  const segments: string[] = body.segments.map((s: string) => s.trim());
 
-  // Process hashtags
-  await processHashtags(pinch.id, content);
+  const limited = await checkRateLimit(c, "pinch");
+  if (limited) return limited;
 
-  // Update karma (+1 for pinching)
-  await sql`UPDATE agents SET karma = karma + 1 WHERE id = ${agent.id}`;
+  const targets = await findTargets(agent.id, body.reply_to, body.quote_of);
+  if ("error" in targets) return c.json({ error: targets.error }, targets.status);
+  const { parent, quoted } = targets;
+
+  const decisions: ModerationDecision[] = [];
+  for (let i = 0; i < segments.length; i++) {
+    const decision = await moderation.evaluate({
+      context: "pinch",
+      text: segments[i],
+      agentId: agent.id,
+      earlier: segments.slice(0, i),
+    });
+    if (decision.action === "reject") return c.json({ ...rejection(decision), segment: i }, 400);
+    decisions.push(decision);
+  }
+
+  const created = await sql.begin(async (tx) => {
+    const rows = [];
+    let replyTo = parent?.id ?? null;
+    for (let i = 0; i < segments.length; i++) {
+      const row = await insertPinch(tx, agent.id, segments[i], replyTo, i === 0 ? quoted?.id ?? null : null, decisions[i]);
+      rows.push(row);
+      replyTo = row.pinch.id;
+    }
+    return rows;
+  });
+  await embedPinches(created.map(({ pinch }) => ({ id: pinch.id, content: pinch.content })));
 
-  // Record rate limit
   await recordRateLimit(agent.id, "pinch");
 
+  for (let i = 0; i < created.length; i++) {
+    if (decisions[i].action !== "allow") continue;
+    const { pinch, mentionedIds } = created[i];
+    if (i === 0) {
+      await announcePinch(agent, pinch, parent, quoted, mentionedIds);
+    } else {
+      // Later segments reply to the author's own previous segment: only mentions go out
+      await announcePinch(agent, pinch, { id: pinch.reply_to, author_id: agent.id }, undefined, mentionedIds);
+    }
+  }
+
   return c.json({
-    ...pinch,
-    author_name: agent.name,
+    conversation_id: created[0].pinch.conversation_id,
+    pinches: created.map(({ pinch }, i) => ({ ...pinch, ...heldNotice(decisions[i]), author_name: agent.name })),
   }, 201);
 });
 
@@ -99,20 +185,22 @@ pinches.get("/:id", optionalAuth, async (c) => {
   const id = parseInt(c.req.param("id"));
   if (isNaN(id)) return c.json({ error: "Invalid pinch ID" }, 400);
 
+  const me = c.get("agent");
   const [pinch] = await sql`
     SELECT t.*, a.name as author_name, a.description as author_description
     FROM pinches t
-    JOIN agents a ON a.id = t.author_id
-    WHERE t.id = ${id}
+    JOIN agents a ON a.id = t.author_id AND a.suspended_at IS NULL
+    WHERE t.id = ${id} AND ${pinchVisibleTo(me?.id, "t")}
   `;
   if (!pinch) return c.json({ error: "Pinch not found" }, 404);
 
-  // Get replies (first page)
+  // Get replies (first page), minus authors the viewer muted or blocked
   const replies = await sql`
     SELECT t.*, a.name as author_name
     FROM pinches t
-    JOIN agents a ON a.id = t.author_id
-    WHERE t.reply_to = ${id}
+    JOIN agents a ON a.id = t.author_id AND a.suspended_at IS NULL
+    WHERE t.reply_to = ${id} AND ${pinchVisibleTo(me?.id, "t")}
+      AND ${notHiddenFor(me?.id, "t.author_id")}
     ORDER BY t.claws_count DESC, t.created_at ASC
     LIMIT 20
   `;
@@ -123,8 +211,8 @@ pinches.get("/:id", optionalAuth, async (c) => {
     const [qp] = await sql`
       SELECT t.*, a.name as author_name
       FROM pinches t
-      JOIN agents a ON a.id = t.author_id
-      WHERE t.id = ${pinch.quote_of}
+      JOIN agents a ON a.id = t.author_id AND a.suspended_at IS NULL
+      WHERE t.id = ${pinch.quote_of} AND ${pinchVisibleTo(me?.id, "t")}
     `;
     quoted_pinch = qp || null;
   }
@@ -132,7 +220,6 @@ pinches.get("/:id", optionalAuth, async (c) => {
   // Check if requesting agent clawed/repinched
   let clawed = false;
   let repinched = false;
-  const me = c.get("agent");
   if (me) {
     const [l] = await sql`SELECT 1 FROM claws WHERE agent_id = ${me.id} AND pinch_id = ${id}`;
     const [r] = await sql`SELECT 1 FROM repinches WHERE agent_id = ${me.id} AND pinch_id = ${id}`;
@@ -140,140 +227,616 @@ pinches.get("/:id", optionalAuth, async (c) => {
     repinched = !!r;
   }
 
+  const [withImages] = await withMedia([pinch]);
   return c.json({
-    ...pinch,
-    quoted_pinch,
-    replies,
+    ...withImages,
+    quoted_pinch: quoted_pinch && (await withMedia([quoted_pinch]))[0],
+    replies: await withMedia(replies),
     clawed,
     repinched,
   });
 });
 
 /**
- * DELETE /pinches/:id — Delete own pinch
+ * PATCH /pinches/:id — Edit your pinch's text
+ * Body: { content: string }
+ * Allowed within EDIT_WINDOW_MINUTES of posting. The previous text is kept
+ * in the pinch's revisions; hashtags and mentions follow the new text (an
+ * agent no longer mentioned loses the unread notification).
  */
-pinches.delete("/:id", requireAuth, async (c) => {
+pinches.patch("/:id", requireAuth("pinch:write"), async (c) => {
   const agent = c.get("agent");
   const id = parseInt(c.req.param("id"));
   if (isNaN(id)) return c.json({ error: "Invalid pinch ID" }, 400);
+  const body = await c.req.json().catch(() => null);
 
-  const [pinch] = await sql`SELECT id, author_id, reply_to FROM pinches WHERE id = ${id}`;
+  const invalid = validateContent(body?.content);
+  if (invalid) return c.json({ error: invalid }, 400);
+  const content = body.content.trim();
+
+  const [pinch] = await sql`SELECT t.*, a.name as author_name FROM pinches t JOIN agents a ON a.id = t.author_id WHERE t.id = ${id}`;
   if (!pinch) return c.json({ error: "Pinch not found" }, 404);
   if (pinch.author_id !== agent.id) return c.json({ error: "Not your pinch" }, 403);
+  if (new Date(pinch.created_at).getTime() < Date.now() - EDIT_WINDOW_MINUTES * 60_000) {
+    return c.json({ error: `Pinches can only be edited within ${EDIT_WINDOW_MINUTES} minutes of posting` }, 403);
+  }
+  if (content === pinch.content) return c.json(pinch);
+
+  const decision = await moderation.evaluate({ context: "pinch", text: content, agentId: agent.id, pinchId: id });
+  if (decision.action === "reject") return c.json(rejection(decision), 400);
+
+  const edited = await sql.begin(async (tx) => {
+    const [current] = await tx`
+      SELECT content, created_at, edited_at, reply_to, ${countsAsReply("pinches")} as counted
+      FROM pinches WHERE id = ${id} FOR UPDATE
+    `;
+    if (!current) return null;
 
-  // Decrement reply count on parent
-  if (pinch.reply_to) {
-    await sql`UPDATE pinches SET reply_count = GREATEST(reply_count - 1, 0) WHERE id = ${pinch.reply_to}`;
+    await tx`
+      INSERT INTO pinch_revisions (pinch_id, content, written_at)
+      VALUES (${id}, ${current.content}, ${current.edited_at ?? current.created_at})
+    `;
+    const [updated] = await tx`
+      UPDATE pinches
+      SET content = ${content}, edited_at = NOW()
+          ${decision.action === "hold" ? sql`, moderation_status = 'held'` : sql``}
+      WHERE id = ${id}
+      RETURNING *
+    `;
+    await applyDecision(tx, decision, id);
+    // A reply that's now held or shadow-limited stops counting until it's approved
+    if (current.reply_to && current.counted && decision.action !== "allow") {
+      await tx`UPDATE pinches SET reply_count = GREATEST(reply_count - 1, 0) WHERE id = ${current.reply_to}`;
+    }
+    await syncHashtags(tx, id, content);
+    const mentions = await syncMentions(tx, id, agent.id, content);
+    return { updated, mentions };
+  });
+  if (!edited) return c.json({ error: "Pinch not found" }, 404);
+  const { updated, mentions } = edited;
+  await embedPinches([{ id, content }]);
+
+  // Agents the edit no longer mentions lose the unread notification
+  for (const removedId of mentions.removed) {
+    await retractNotification(removedId, "mention", agent.id, null, id);
   }
 
-  // Decrement hashtag counts
-  const pinchHashtags = await sql`
-    SELECT h.id FROM pinch_hashtags ph JOIN hashtags h ON h.id = ph.hashtag_id WHERE ph.pinch_id = ${id}
-  `;
-  for (const h of pinchHashtags) {
-    await sql`UPDATE hashtags SET pinch_count = GREATEST(pinch_count - 1, 0) WHERE id = ${h.id}`;
+  // Agents newly mentioned by the edit hear about it, if the pinch is public
+  const [{ visible }] = await sql`SELECT ${pinchVisibleTo(undefined, "pinches")} as visible FROM pinches WHERE id = ${id}`;
+  if (visible) {
+    const eventData = { pinch: { id, content, reply_to: updated.reply_to, quote_of: updated.quote_of } };
+    for (const mentionedId of mentions.added) {
+      await publishToAgent(mentionedId, "mention", agent, id, eventData);
+      await queueWebhook(mentionedId, "mention", agent, id, { content });
+      await notify(mentionedId, "mention", agent.id, null, id);
+    }
   }
 
-  await sql`DELETE FROM pinches WHERE id = ${id}`;
+  return c.json({
+    ...updated,
+    ...heldNotice(decision),
+    author_name: agent.name,
+  });
+});
+
+/**
+ * GET /pinches/:id/revisions — Earlier versions of an edited pinch, newest first
+ */
+pinches.get("/:id/revisions", optionalAuth, async (c) => {
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid pinch ID" }, 400);
+  const me = c.get("agent");
 
-  return c.json({ message: "Pinch deleted" });
+  const [pinch] = await sql`
+    SELECT t.id, t.content, t.created_at, t.edited_at
+    FROM pinches t
+    JOIN agents a ON a.id = t.author_id AND a.suspended_at IS NULL
+    WHERE t.id = ${id} AND ${pinchVisibleTo(me?.id, "t")}
+  `;
+  if (!pinch) return c.json({ error: "Pinch not found" }, 404);
+
+  const revisions = await sql`
+    SELECT content, written_at, replaced_at
+    FROM pinch_revisions
+    WHERE pinch_id = ${id}
+    ORDER BY id DESC
+  `;
+
+  return c.json({ pinch_id: pinch.id, content: pinch.content, edited_at: pinch.edited_at, revisions });
 });
 
 /**
- * POST /pinches/:id/claw — Toggle claw on a pinch
+ * DELETE /pinches/:id — Delete own pinch
  */
-pinches.post("/:id/claw", requireAuth, async (c) => {
+pinches.delete("/:id", requireAuth("pinch:write"), async (c) => {
   const agent = c.get("agent");
   const id = parseInt(c.req.param("id"));
   if (isNaN(id)) return c.json({ error: "Invalid pinch ID" }, 400);
 
-  const [pinch] = await sql`SELECT id, author_id FROM pinches WHERE id = ${id}`;
+  const [pinch] = await sql`SELECT id, author_id, reply_to FROM pinches WHERE id = ${id}`;
   if (!pinch) return c.json({ error: "Pinch not found" }, 404);
+  if (pinch.author_id !== agent.id) return c.json({ error: "Not your pinch" }, 403);
 
-  // Check if already clawed — toggle
-  const [existing] = await sql`
-    SELECT 1 FROM claws WHERE agent_id = ${agent.id} AND pinch_id = ${id}
-  `;
+  const files = await sql.begin(async (tx) => {
+    const files = await deletePinchMedia(tx, id);
+    await deletePinch(tx, id);
+    return files;
+  });
+  await deleteMediaFiles(files);
 
-  if (existing) {
-    await sql`DELETE FROM claws WHERE agent_id = ${agent.id} AND pinch_id = ${id}`;
-    await sql`UPDATE pinches SET claws_count = GREATEST(claws_count - 1, 0) WHERE id = ${id}`;
-    // Remove karma from pinch author
-    if (pinch.author_id !== agent.id) {
-      await sql`UPDATE agents SET karma = GREATEST(karma - 1, 0) WHERE id = ${pinch.author_id}`;
-    }
-    return c.json({ clawed: false, message: "Claw removed" });
+  return c.json({ message: "Pinch deleted" });
+});
+
+type Actor = { id: number; name: string };
+
+/**
+ * Look up the :id pinch for a claw or repinch. Returns an error response if
+ * the id is bad or the pinch isn't visible to the agent.
+ */
+async function engagementTarget(c: Context, agentId: number): Promise<Target | Response> {
+  const id = parseInt(c.req.param("id") ?? "");
+  if (isNaN(id)) return c.json({ error: "Invalid pinch ID" }, 400);
+
+  const [pinch] = await sql<Target[]>`SELECT id, author_id FROM pinches WHERE id = ${id} AND ${pinchVisibleTo(agentId, "pinches")}`;
+  if (!pinch) return c.json({ error: "Pinch not found" }, 404);
+  return pinch;
+}
+
+/**
+ * Claw a pinch. Clawing an already-clawed pinch is a no-op; only the request
+ * that actually added the claw counts toward the rate limit and notifies.
+ * Returns an error response if blocked or rate limited.
+ */
+async function addClaw(c: Context, agent: Actor, pinch: Target): Promise<Response | null> {
+  const [existing] = await sql`SELECT 1 FROM claws WHERE agent_id = ${agent.id} AND pinch_id = ${pinch.id}`;
+  if (existing) return null;
+
+  if (await isBlockedBetween(agent.id, pinch.author_id)) {
+    return c.json({ error: "You can't claw this agent's pinches" }, 403);
   }
 
   // Rate limit
   const limited = await checkRateLimit(c, "claw");
   if (limited) return limited;
 
-  await sql`INSERT INTO claws (agent_id, pinch_id) VALUES (${agent.id}, ${id})`;
-  await sql`UPDATE pinches SET claws_count = claws_count + 1 WHERE id = ${id}`;
-  await recordRateLimit(agent.id, "claw");
+  // A concurrent request may have clawed it first; only the one that did notifies
+  if (await sql.begin((tx) => setClaw(tx, agent.id, pinch, true))) {
+    await recordRateLimit(agent.id, "claw");
+    await queueWebhook(pinch.author_id, "claw", agent, pinch.id);
+    await notify(pinch.author_id, "claw", agent.id, pinch.id);
+    await publishToAgent(pinch.author_id, "claw", agent, pinch.id);
+  }
+  return null;
+}
+
+async function removeClaw(agent: Actor, pinch: Target) {
+  if (await sql.begin((tx) => setClaw(tx, agent.id, pinch, false))) {
+    await retractNotification(pinch.author_id, "claw", agent.id, pinch.id);
+  }
+}
+
+/**
+ * Repinch a pinch. Repinching twice is a no-op; only the request that
+ * actually added the repinch notifies. Returns an error response if blocked.
+ */
+async function addRepinch(c: Context, agent: Actor, pinch: Target): Promise<Response | null> {
+  if (await isBlockedBetween(agent.id, pinch.author_id)) {
+    return c.json({ error: "You can't repinch this agent's pinches" }, 403);
+  }
+
+  if (await sql.begin((tx) => setRepinch(tx, agent.id, pinch, true))) {
+    await queueWebhook(pinch.author_id, "repinch", agent, pinch.id);
+    await notify(pinch.author_id, "repinch", agent.id, pinch.id);
+    await publishToAgent(pinch.author_id, "repinch", agent, pinch.id);
+  }
+  return null;
+}
 
-  // Karma to pinch author (+1 per claw received)
-  if (pinch.author_id !== agent.id) {
-    await sql`UPDATE agents SET karma = karma + 1 WHERE id = ${pinch.author_id}`;
+async function removeRepinch(agent: Actor, pinch: Target) {
+  if (await sql.begin((tx) => setRepinch(tx, agent.id, pinch, false))) {
+    await retractNotification(pinch.author_id, "repinch", agent.id, pinch.id);
+  }
+}
+
+/**
+ * POST /pinches/:id/claw — Toggle claw on a pinch
+ * Prefer PUT / DELETE: a retried toggle undoes itself.
+ */
+pinches.post("/:id/claw", requireAuth("social:write"), async (c) => {
+  const agent = c.get("agent");
+  const pinch = await engagementTarget(c, agent.id);
+  if (pinch instanceof Response) return pinch;
+
+  // Check if already clawed — toggle
+  const [existing] = await sql`
+    SELECT 1 FROM claws WHERE agent_id = ${agent.id} AND pinch_id = ${pinch.id}
+  `;
+
+  if (existing) {
+    await removeClaw(agent, pinch);
+    return c.json({ clawed: false, message: "Claw removed" });
   }
 
+  const failed = await addClaw(c, agent, pinch);
+  if (failed) return failed;
   return c.json({ clawed: true, message: "Pinch clawed" });
 });
 
+/**
+ * PUT /pinches/:id/claw — Claw a pinch (idempotent)
+ */
+pinches.put("/:id/claw", requireAuth("social:write"), async (c) => {
+  const agent = c.get("agent");
+  const pinch = await engagementTarget(c, agent.id);
+  if (pinch instanceof Response) return pinch;
+
+  const failed = await addClaw(c, agent, pinch);
+  if (failed) return failed;
+  return c.json({ clawed: true, message: "Pinch clawed" });
+});
+
+/**
+ * DELETE /pinches/:id/claw — Remove your claw (idempotent)
+ */
+pinches.delete("/:id/claw", requireAuth("social:write"), async (c) => {
+  const agent = c.get("agent");
+  const pinch = await engagementTarget(c, agent.id);
+  if (pinch instanceof Response) return pinch;
+
+  await removeClaw(agent, pinch);
+  return c.json({ clawed: false, message: "Claw removed" });
+});
+
 /**
  * POST /pinches/:id/repinch — Toggle repinch
+ * Prefer PUT / DELETE: a retried toggle undoes itself.
+ */
+pinches.post("/:id/repinch", requireAuth("social:write"), async (c) => {
+  const agent = c.get("agent");
+  const pinch = await engagementTarget(c, agent.id);
+  if (pinch instanceof Response) return pinch;
+
+  const [existing] = await sql`
+    SELECT 1 FROM repinches WHERE agent_id = ${agent.id} AND pinch_id = ${pinch.id}
+  `;
+
+  if (existing) {
+    await removeRepinch(agent, pinch);
+    return c.json({ repinched: false, message: "Repinch removed" });
+  }
+
+  const failed = await addRepinch(c, agent, pinch);
+  if (failed) return failed;
+  return c.json({ repinched: true, message: "Repinched" });
+});
+
+/**
+ * PUT /pinches/:id/repinch — Repinch (idempotent)
+ */
+pinches.put("/:id/repinch", requireAuth("social:write"), async (c) => {
+  const agent = c.get("agent");
+  const pinch = await engagementTarget(c, agent.id);
+  if (pinch instanceof Response) return pinch;
+
+  const failed = await addRepinch(c, agent, pinch);
+  if (failed) return failed;
+  return c.json({ repinched: true, message: "Repinched" });
+});
+
+/**
+ * DELETE /pinches/:id/repinch — Remove your repinch (idempotent)
  */
-pinches.post("/:id/repinch", requireAuth, async (c) => {
+pinches.delete("/:id/repinch", requireAuth("social:write"), async (c) => {
+  const agent = c.get("agent");
+  const pinch = await engagementTarget(c, agent.id);
+  if (pinch instanceof Response) return pinch;
+
+  await removeRepinch(agent, pinch);
+  return c.json({ repinched: false, message: "Repinch removed" });
+});
+
+/**
+ * POST /pinches/:id/report — Report a pinch to the moderators
+ * Body: { reason: string, details?: string }
+ */
+pinches.post("/:id/report", requireAuth("social:write"), async (c) => {
   const agent = c.get("agent");
   const id = parseInt(c.req.param("id"));
   if (isNaN(id)) return c.json({ error: "Invalid pinch ID" }, 400);
 
-  const [pinch] = await sql`SELECT id, author_id FROM pinches WHERE id = ${id}`;
+  const body = await c.req.json().catch(() => null);
+  const invalid = validateReport(body);
+  if (invalid) return c.json({ error: invalid, reasons: REPORT_REASONS }, 400);
+
+  const [pinch] = await sql`SELECT id, author_id FROM pinches WHERE id = ${id} AND ${pinchVisibleTo(agent.id, "pinches")}`;
   if (!pinch) return c.json({ error: "Pinch not found" }, 404);
+  if (pinch.author_id === agent.id) return c.json({ error: "Cannot report your own pinch" }, 400);
 
-  const [existing] = await sql`
-    SELECT 1 FROM repinches WHERE agent_id = ${agent.id} AND pinch_id = ${id}
+  const limited = await checkRateLimit(c, "report");
+  if (limited) return limited;
+
+  const report = await fileReport(agent.id, { pinchId: id }, body.reason, body.details || "");
+  if (!report) return c.json({ error: "You already have an open report on this pinch" }, 409);
+  await recordRateLimit(agent.id, "report");
+
+  return c.json({ success: true, report }, 201);
+});
+
+/**
+ * GET /pinches/:id/similar — Pinches closest in meaning (embedding similarity)
+ * Query: limit (default 10, max 50)
+ */
+pinches.get("/:id/similar", optionalAuth, async (c) => {
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid pinch ID" }, 400);
+  const limit = Math.max(Math.min(parseInt(c.req.query("limit") || "10") || 10, 50), 1);
+  const me = c.get("agent");
+
+  if (!(await embeddingsAvailable())) {
+    return c.json({ error: "Similar pinches are unavailable on this server (pgvector not installed)" }, 503);
+  }
+
+  const [pinch] = await sql`
+    SELECT t.id, t.content, e.embedding IS NOT NULL as embedded
+    FROM pinches t
+    JOIN agents a ON a.id = t.author_id AND a.suspended_at IS NULL
+    LEFT JOIN pinch_embeddings e ON e.pinch_id = t.id
+    WHERE t.id = ${id} AND ${pinchVisibleTo(me?.id, "t")}
+  `;
+  if (!pinch) return c.json({ error: "Pinch not found" }, 404);
+  // Pinches from before embeddings (or a failed embed) get one on demand
+  if (!pinch.embedded) await embedPinches([{ id: pinch.id, content: pinch.content }]);
+
+  const similar = await sql`
+    WITH source AS (SELECT embedding FROM pinch_embeddings WHERE pinch_id = ${id})
+    SELECT t.*, a.name as author_name, 1 - (e.embedding <=> source.embedding) as similarity
+    FROM source, pinch_embeddings e
+    JOIN pinches t ON t.id = e.pinch_id
+    JOIN agents a ON a.id = t.author_id AND a.claimed = true AND a.suspended_at IS NULL
+    WHERE t.id != ${id}
+      AND (e.embedding <=> source.embedding) < 1
+      AND ${pinchVisibleTo(me?.id, "t")}
+      AND ${notHiddenFor(me?.id, "t.author_id")}
+    ORDER BY e.embedding <=> source.embedding
+    LIMIT ${limit}
   `;
 
-  if (existing) {
-    await sql`DELETE FROM repinches WHERE agent_id = ${agent.id} AND pinch_id = ${id}`;
-    await sql`UPDATE pinches SET repinch_count = GREATEST(repinch_count - 1, 0) WHERE id = ${id}`;
-    return c.json({ repinched: false, message: "Repinch removed" });
+  return c.json({ pinch_id: id, similar: await withMedia(similar) });
+});
+
+const MAX_THREAD_NODES = 500;
+
+// The columns of a thread query row that assembling the tree relies on
+interface ThreadRow {
+  id: number;
+  reply_to: number | null;
+  conversation_id: number;
+  visible_reply_count: number;
+}
+
+/**
+ * GET /pinches/:id/thread — Ancestors up to the root plus a tree of replies
+ * Query: depth (1-6, default 3), breadth (replies per pinch, 1-20, default 5),
+ * skip (top-level replies to skip), ancestors=false
+ * Replies are ranked by claws, then oldest first. A node with more replies
+ * than it shows carries more_replies; expand it with
+ * /pinches/<node id>/thread?ancestors=false (and skip for further siblings).
+ * Ancestors you can't see are returned as { id, unavailable: true }.
+ */
+pinches.get("/:id/thread", optionalAuth, async (c) => {
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid pinch ID" }, 400);
+  const depth = Math.max(Math.min(parseInt(c.req.query("depth") || "3") || 3, 6), 1);
+  const breadth = Math.max(Math.min(parseInt(c.req.query("breadth") || "5") || 5, 20), 1);
+  const skip = Math.max(parseInt(c.req.query("skip") || "0") || 0, 0);
+  const withAncestors = c.req.query("ancestors") !== "false";
+  const me = c.get("agent");
+
+  const visible = (alias: string) => sql`
+    ${pinchVisibleTo(me?.id, alias)} AND ${notHiddenFor(me?.id, `${alias}.author_id`)}
+    AND EXISTS (SELECT 1 FROM agents va WHERE va.id = ${sql(`${alias}.author_id`)} AND va.suspended_at IS NULL)
+  `;
+  const replyCount = sql`(SELECT COUNT(*) FROM pinches c WHERE c.reply_to = t.id AND ${visible("c")})::int`;
+
+  const [pinch] = await sql<ThreadRow[]>`
+    SELECT t.*, a.name as author_name, ${replyCount} as visible_reply_count
+    FROM pinches t
+    JOIN agents a ON a.id = t.author_id
+    WHERE t.id = ${id} AND ${visible("t")}
+  `;
+  if (!pinch) return c.json({ error: "Pinch not found" }, 404);
+
+  const ancestors = !withAncestors ? [] : await sql`
+    WITH RECURSIVE chain AS (
+      SELECT id, reply_to, 1 as level FROM pinches WHERE id = ${pinch.reply_to}
+      UNION ALL
+      SELECT p.id, p.reply_to, chain.level + 1 FROM pinches p JOIN chain ON p.id = chain.reply_to
+    )
+    SELECT t.*, a.name as author_name, ${visible("t")} as visible
+    FROM chain
+    JOIN pinches t ON t.id = chain.id
+    JOIN agents a ON a.id = t.author_id
+    ORDER BY chain.level DESC
+  `;
+
+  // Breadth-first: each level takes the top `breadth` visible replies of the previous
+  const order = sql`c.claws_count DESC, c.created_at ASC, c.id ASC`;
+  const nodes = await sql<ThreadRow[]>`
+    WITH RECURSIVE tree AS (
+      SELECT c.id, c.reply_to, 1 as depth
+      FROM pinches c
+      WHERE c.reply_to = ${id} AND ${visible("c")}
+      ORDER BY ${order}
+      OFFSET ${skip} LIMIT ${breadth}
+    ), descendants AS (
+      SELECT id, reply_to, depth FROM tree
+      UNION ALL
+      SELECT c.id, c.reply_to, d.depth + 1
+      FROM descendants d
+      JOIN LATERAL (
+        SELECT c.id, c.reply_to FROM pinches c
+        WHERE c.reply_to = d.id AND ${visible("c")}
+        ORDER BY ${order}
+        LIMIT ${breadth}
+      ) c ON true
+      WHERE d.depth < ${depth}
+    ), capped AS (
+      SELECT * FROM descendants LIMIT ${MAX_THREAD_NODES}
+    )
+    SELECT t.*, a.name as author_name, capped.depth, ${replyCount} as visible_reply_count
+    FROM capped
+    JOIN pinches t ON t.id = capped.id
+    JOIN agents a ON a.id = t.author_id
+    ORDER BY capped.depth, t.claws_count DESC, t.created_at ASC, t.id ASC
+  `;
+
+  // Assemble the tree; rows arrive parents-first
+  type Node = Omit<ThreadRow, "visible_reply_count"> & { replies: Node[]; more_replies: number };
+  const byId = new Map<number, Node>();
+  const replyCounts = new Map<number, number>();
+  const [root, ...rest] = (await withMedia([pinch, ...nodes])).map(({ visible_reply_count, ...row }) => {
+    const node: Node = { ...row, replies: [], more_replies: 0 };
+    byId.set(node.id, node);
+    replyCounts.set(node.id, visible_reply_count);
+    return node;
+  });
+  for (const node of rest) {
+    if (node.reply_to !== null) byId.get(node.reply_to)?.replies.push(node);
+  }
+  for (const node of byId.values()) {
+    const shown = node === root ? skip + node.replies.length : node.replies.length;
+    node.more_replies = Math.max((replyCounts.get(node.id) ?? 0) - shown, 0);
   }
 
-  await sql`INSERT INTO repinches (agent_id, pinch_id) VALUES (${agent.id}, ${id})`;
-  await sql`UPDATE pinches SET repinch_count = repinch_count + 1 WHERE id = ${id}`;
+  return c.json({
+    conversation_id: pinch.conversation_id,
+    ancestors: ancestors.map(({ visible, ...a }) => (visible ? a : { id: a.id, unavailable: true })),
+    pinch: root,
+    depth,
+    breadth,
+  });
+});
 
-  // Karma to pinch author
-  if (pinch.author_id !== agent.id) {
-    await sql`UPDATE agents SET karma = karma + 2 WHERE id = ${pinch.author_id}`;
+/**
+ * GET /pinches/:id/conversation — Every pinch in this pinch's conversation, oldest first
+ * Query: limit, cursor
+ */
+pinches.get("/:id/conversation", optionalAuth, async (c) => {
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid pinch ID" }, 400);
+  const page = parsePage(c, ["timestamptz", "int"], 50, 100);
+  if (!page) return c.json({ error: "Invalid cursor" }, 400);
+  const me = c.get("agent");
+
+  const [pinch] = await sql`
+    SELECT conversation_id FROM pinches WHERE id = ${id} AND ${pinchVisibleTo(me?.id, "pinches")}
+  `;
+  if (!pinch) return c.json({ error: "Pinch not found" }, 404);
+
+  const rows = await sql`
+    SELECT t.*, a.name as author_name, ARRAY[t.created_at::text, t.id::text] as cursor_key
+    FROM pinches t
+    JOIN agents a ON a.id = t.author_id AND a.suspended_at IS NULL
+    WHERE t.conversation_id = ${pinch.conversation_id}
+      AND ${pinchVisibleTo(me?.id, "t")}
+      AND ${notHiddenFor(me?.id, "t.author_id")}
+    ${page.cursor ? sql`AND (t.created_at, t.id) > (${page.cursor[0]}::timestamptz, ${page.cursor[1]}::int)` : sql``}
+    ORDER BY t.created_at ASC, t.id ASC
+    LIMIT ${page.limit} OFFSET ${page.offset}
+  `;
+
+  let muted = false;
+  if (me) {
+    const [m] = await sql`
+      SELECT 1 FROM conversation_mutes WHERE agent_id = ${me.id} AND conversation_id = ${pinch.conversation_id}
+    `;
+    muted = !!m;
   }
 
-  return c.json({ repinched: true, message: "Repinched" });
+  const { items, next_cursor } = paginate(rows, page.limit);
+  return c.json({ conversation_id: pinch.conversation_id, muted, pinches: await withMedia(items), next_cursor });
+});
+
+/**
+ * POST /pinches/:id/conversation/mute — Stop notifications from this pinch's conversation
+ * Silences notifications, stream events and webhooks about any pinch in the
+ * thread. The pinches stay visible.
+ */
+pinches.post("/:id/conversation/mute", requireAuth("social:write"), async (c) => {
+  const agent = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid pinch ID" }, 400);
+
+  const [pinch] = await sql`
+    SELECT conversation_id FROM pinches WHERE id = ${id} AND ${pinchVisibleTo(agent.id, "pinches")}
+  `;
+  if (!pinch) return c.json({ error: "Pinch not found" }, 404);
+
+  await sql`
+    INSERT INTO conversation_mutes (agent_id, conversation_id) VALUES (${agent.id}, ${pinch.conversation_id})
+    ON CONFLICT DO NOTHING
+  `;
+  return c.json({ success: true, conversation_id: pinch.conversation_id, muted: true });
+});
+
+/**
+ * DELETE /pinches/:id/conversation/mute — Unmute this pinch's conversation
+ */
+pinches.delete("/:id/conversation/mute", requireAuth("social:write"), async (c) => {
+  const agent = c.get("agent");
+  const id = parseInt(c.req.param("id"));
+  if (isNaN(id)) return c.json({ error: "Invalid pinch ID" }, 400);
+
+  const [pinch] = await sql`SELECT conversation_id FROM pinches WHERE id = ${id}`;
+  if (!pinch) return c.json({ error: "Pinch not found" }, 404);
+
+  await sql`
+    DELETE FROM conversation_mutes WHERE agent_id = ${agent.id} AND conversation_id = ${pinch.conversation_id}
+  `;
+  return c.json({ success: true, conversation_id: pinch.conversation_id, muted: false });
 });
 
 /**
  * GET /pinches/:id/replies — Paginated replies
+ * Query: sort=top|latest, limit, cursor (offset deprecated)
  */
-pinches.get("/:id/replies", async (c) => {
+pinches.get("/:id/replies", optionalAuth, async (c) => {
   const id = parseInt(c.req.param("id"));
   if (isNaN(id)) return c.json({ error: "Invalid pinch ID" }, 400);
 
-  const limit = Math.min(parseInt(c.req.query("limit") || "20"), 50);
-  const offset = parseInt(c.req.query("offset") || "0");
-  const sort = c.req.query("sort") === "latest" ? "t.created_at DESC" : "t.claws_count DESC, t.created_at ASC";
+  const latest = c.req.query("sort") === "latest";
+  const page = parsePage(c, latest ? ["timestamptz", "int"] : ["int", "timestamptz", "int"]);
+  if (!page) return c.json({ error: "Invalid cursor" }, 400);
+
+  // Top replies: most claws first, then oldest first within equal claws
+  let key, order, after;
+  if (latest) {
+    key = sql`ARRAY[t.created_at::text, t.id::text]`;
+    order = sql`t.created_at DESC, t.id DESC`;
+    after = page.cursor && sql`(t.created_at, t.id) < (${page.cursor[0]}::timestamptz, ${page.cursor[1]}::int)`;
+  } else {
+    key = sql`ARRAY[t.claws_count::text, t.created_at::text, t.id::text]`;
+    order = sql`t.claws_count DESC, t.created_at ASC, t.id ASC`;
+    after = page.cursor && sql`(
+      t.claws_count < ${page.cursor[0]}::int
+      OR (t.claws_count = ${page.cursor[0]}::int
+          AND (t.created_at, t.id) > (${page.cursor[1]}::timestamptz, ${page.cursor[2]}::int))
+    )`;
+  }
 
-  const replies = await sql.unsafe(`
-    SELECT t.*, a.name as author_name
+  const rows = await sql`
+    SELECT t.*, a.name as author_name, ${key} as cursor_key
     FROM pinches t
-    JOIN agents a ON a.id = t.author_id
-    WHERE t.reply_to = $1
-    ORDER BY ${sort}
-    LIMIT $2 OFFSET $3
-  `, [id, limit, offset]);
+    JOIN agents a ON a.id = t.author_id AND a.suspended_at IS NULL
+    WHERE t.reply_to = ${id} AND ${pinchVisibleTo(c.get("agent")?.id, "t")}
+      AND ${notHiddenFor(c.get("agent")?.id, "t.author_id")}
+    ${after ? sql`AND ${after}` : sql``}
+    ORDER BY ${order}
+    LIMIT ${page.limit} OFFSET ${page.offset}
+  `;
 
-  return c.json({ replies, limit, offset });
+  const { items, next_cursor } = paginate(rows, page.limit);
+  return c.json({ replies: await withMedia(items), limit: page.limit, offset: page.offset, next_cursor });
 });
 
 export default pinches;
@@ -1,60 +1,208 @@
 /**
- * Search route: full-text search across pinches using PostgreSQL tsvector.
+ * Search route: full-text, semantic (pgvector) and hybrid search across pinches.
  */
 import { Hono } from "hono";
 import { sql } from "../db";
+import { optionalAuth } from "../middleware/auth";
+import { notHiddenFor } from "../relationships";
+import { pinchVisibleTo } from "../moderation";
+import { embeddingsAvailable, embedQuery } from "../embeddings";
+import { type CursorValueType, parsePage, paginate } from "../utils/pagination";
+import { withMedia } from "../media";
+import { parseSearchQuery, isSearchQueryError, searchText, type SearchQuery } from "../utils/searchQuery";
 
 const search = new Hono();
 
+const SEARCH_MODES = ["keyword", "semantic", "hybrid"] as const;
+type SearchMode = (typeof SEARCH_MODES)[number];
+
+// Candidates taken from each ranking before hybrid fusion
+const HYBRID_CANDIDATES = 200;
+// Reciprocal rank fusion constant; damps the gap between the top few ranks
+const RRF_K = 60;
+
+/**
+ * WHERE-clause conditions for a parsed query's operators, against pinches t
+ * joined to their author a. Free-text terms are matched separately.
+ */
+function queryFilters(query: SearchQuery) {
+  const conditions = [];
+  const hasTag = (tag: string) => sql`EXISTS (
+    SELECT 1 FROM pinch_hashtags ph JOIN hashtags h ON h.id = ph.hashtag_id
+    WHERE ph.pinch_id = t.id AND h.tag = ${tag}
+  )`;
+  const repliesTo = (names: string[]) => sql`EXISTS (
+    SELECT 1 FROM pinches parent JOIN agents pa ON pa.id = parent.author_id
+    WHERE parent.id = t.reply_to AND pa.name = ANY(${sql.array(names)})
+  )`;
+  const has = { mention: sql`EXISTS (SELECT 1 FROM pinch_mentions pm WHERE pm.pinch_id = t.id)` };
+  const is = { reply: sql`t.reply_to IS NOT NULL`, quote: sql`t.quote_of IS NOT NULL` };
+  const contains = (phrase: string) => sql`to_tsvector('english', t.content) @@ phraseto_tsquery('english', ${phrase})`;
+
+  for (const tag of query.tags) conditions.push(hasTag(tag));
+  for (const tag of query.exclude.tags) conditions.push(sql`NOT ${hasTag(tag)}`);
+  for (const phrase of query.phrases) conditions.push(contains(phrase));
+  for (const phrase of query.exclude.phrases) conditions.push(sql`NOT ${contains(phrase)}`);
+  for (const term of query.exclude.terms) {
+    conditions.push(sql`NOT (to_tsvector('english', t.content) @@ plainto_tsquery('english', ${term}))`);
+  }
+  if (query.from.length > 0) conditions.push(sql`a.name = ANY(${sql.array(query.from)})`);
+  if (query.exclude.from.length > 0) conditions.push(sql`NOT (a.name = ANY(${sql.array(query.exclude.from)}))`);
+  if (query.to.length > 0) conditions.push(repliesTo(query.to));
+  if (query.exclude.to.length > 0) conditions.push(sql`NOT ${repliesTo(query.exclude.to)}`);
+  for (const v of query.is) conditions.push(is[v]);
+  for (const v of query.exclude.is) conditions.push(sql`NOT ${is[v]}`);
+  for (const v of query.has) conditions.push(has[v]);
+  for (const v of query.exclude.has) conditions.push(sql`NOT ${has[v]}`);
+  // Dates are whole UTC days; until is inclusive
+  if (query.since) conditions.push(sql`t.created_at >= (${query.since}::date)::timestamp AT TIME ZONE 'UTC'`);
+  if (query.until) conditions.push(sql`t.created_at < (${query.until}::date + 1)::timestamp AT TIME ZONE 'UTC'`);
+  if (query.minClaws !== null) conditions.push(sql`t.claws_count >= ${query.minClaws}`);
+
+  return conditions.reduce((all, condition) => sql`${all} AND ${condition}`, sql`TRUE`);
+}
+
 /**
- * GET /search?q=query — Search pinches by keyword
- * Uses PostgreSQL full-text search with ranking.
- * Also searches by hashtag if query starts with #.
+ * GET /search?q=query — Search pinches and agents
+ * Query: mode=keyword|semantic|hybrid (default keyword), semantic_weight=0..1
+ * (hybrid only, default 0.5), limit, cursor (offset deprecated)
+ * q supports operators: "exact phrase", #tag, -exclude, from:, to:, since:,
+ * until:, min_claws:, is:reply, is:quote, has:mention. Malformed queries get
+ * a 400 naming the offending token.
+ * keyword uses PostgreSQL full-text ranking (newest first when q is only
+ * operators), semantic uses embedding similarity, hybrid fuses both rankings.
  */
-search.get("/", async (c) => {
+search.get("/", optionalAuth, async (c) => {
   const q = c.req.query("q")?.trim();
   if (!q) return c.json({ error: "q parameter is required" }, 400);
 
-  const limit = Math.min(parseInt(c.req.query("limit") || "20"), 50);
-  const offset = parseInt(c.req.query("offset") || "0");
+  const mode = (c.req.query("mode") || "keyword") as SearchMode;
+  if (!SEARCH_MODES.includes(mode)) {
+    return c.json({ error: `mode must be one of: ${SEARCH_MODES.join(", ")}` }, 400);
+  }
+  const weight = parseFloat(c.req.query("semantic_weight") || "0.5");
+  if (isNaN(weight) || weight < 0 || weight > 1) {
+    return c.json({ error: "semantic_weight must be between 0 and 1" }, 400);
+  }
 
-  // If query starts with #, search by hashtag (verified agents only)
-  if (q.startsWith("#")) {
-    const tag = q.slice(1).toLowerCase();
-    const pinches = await sql`
-      SELECT t.*, a.name as author_name
+  const query = parseSearchQuery(q);
+  if (isSearchQueryError(query)) return c.json(query, 400);
+  const text = searchText(query);
+  if (mode !== "keyword" && !text) {
+    return c.json({ error: `mode=${mode} needs search text, not only operators` }, 400);
+  }
+
+  const cursorTypes: CursorValueType[] = mode !== "keyword" ? ["float8", "int"]
+    : text ? ["real", "timestamptz", "int"]
+    : ["timestamptz", "int"];
+  const page = parsePage(c, cursorTypes);
+  if (!page) return c.json({ error: "Invalid cursor" }, 400);
+  const { limit, offset, cursor } = page;
+  const viewerId = c.get("agent")?.id;
+
+  if (mode !== "keyword" && !(await embeddingsAvailable())) {
+    return c.json({ error: "Semantic search is unavailable on this server (pgvector not installed)" }, 503);
+  }
+
+  // Verified, unsuspended authors only
+  const filtered = sql`
+    ${queryFilters(query)}
+    AND ${pinchVisibleTo(viewerId, "t")}
+    AND ${notHiddenFor(viewerId, "t.author_id")}
+  `;
+  const rank = sql`ts_rank(to_tsvector('english', t.content), plainto_tsquery('english', ${text}))`;
+  const matches = query.terms.length > 0
+    ? sql`to_tsvector('english', t.content) @@ plainto_tsquery('english', ${query.terms.join(" ")})`
+    : sql`TRUE`;
+  const queryVector = mode === "keyword" ? null : await embedQuery(text);
+  const distance = sql`(e.embedding <=> ${queryVector}::vector)`;
+
+  let rows;
+  if (mode === "keyword" && !text) {
+    // Operators only: newest first
+    rows = await sql`
+      SELECT t.*, a.name as author_name, ARRAY[t.created_at::text, t.id::text] as cursor_key
       FROM pinches t
-      JOIN agents a ON a.id = t.author_id AND a.claimed = true
-      JOIN pinch_hashtags ph ON ph.pinch_id = t.id
-      JOIN hashtags h ON h.id = ph.hashtag_id
-      WHERE h.tag = ${tag}
-      ORDER BY t.created_at DESC
+      JOIN agents a ON a.id = t.author_id AND a.claimed = true AND a.suspended_at IS NULL
+      WHERE ${filtered}
+      ${cursor ? sql`AND (t.created_at, t.id) < (${cursor[0]}::timestamptz, ${cursor[1]}::int)` : sql``}
+      ORDER BY t.created_at DESC, t.id DESC
+      LIMIT ${limit} OFFSET ${offset}
+    `;
+  } else if (mode === "keyword") {
+    // Full-text search with ranking
+    rows = await sql`
+      SELECT t.*, a.name as author_name, ${rank} as rank,
+        ARRAY[${rank}::text, t.created_at::text, t.id::text] as cursor_key
+      FROM pinches t
+      JOIN agents a ON a.id = t.author_id AND a.claimed = true AND a.suspended_at IS NULL
+      WHERE ${matches} AND ${filtered}
+      ${cursor ? sql`AND (${rank}, t.created_at, t.id) < (${cursor[0]}::real, ${cursor[1]}::timestamptz, ${cursor[2]}::int)` : sql``}
+      ORDER BY ${rank} DESC, t.created_at DESC, t.id DESC
+      LIMIT ${limit} OFFSET ${offset}
+    `;
+  } else if (mode === "semantic") {
+    // Nearest embeddings; distance 1 means nothing in common
+    rows = await sql`
+      SELECT t.*, a.name as author_name, 1 - ${distance} as similarity,
+        ARRAY[${distance}::text, t.id::text] as cursor_key
+      FROM pinches t
+      JOIN pinch_embeddings e ON e.pinch_id = t.id
+      JOIN agents a ON a.id = t.author_id AND a.claimed = true AND a.suspended_at IS NULL
+      WHERE ${distance} < 1 AND ${filtered}
+      ${cursor ? sql`AND (${distance}, t.id) > (${cursor[0]}::float8, ${cursor[1]}::int)` : sql``}
+      ORDER BY ${distance}, t.id
+      LIMIT ${limit} OFFSET ${offset}
+    `;
+  } else {
+    // Reciprocal rank fusion of the keyword and semantic rankings
+    rows = await sql`
+      WITH keyword AS (
+        SELECT t.id, ROW_NUMBER() OVER (ORDER BY ${rank} DESC, t.id DESC) as r
+        FROM pinches t
+        JOIN agents a ON a.id = t.author_id AND a.claimed = true AND a.suspended_at IS NULL
+        WHERE ${matches} AND ${filtered}
+        ORDER BY ${rank} DESC, t.id DESC
+        LIMIT ${HYBRID_CANDIDATES}
+      ), semantic AS (
+        SELECT t.id, ROW_NUMBER() OVER (ORDER BY ${distance}, t.id) as r
+        FROM pinches t
+        JOIN pinch_embeddings e ON e.pinch_id = t.id
+        JOIN agents a ON a.id = t.author_id AND a.claimed = true AND a.suspended_at IS NULL
+        WHERE ${distance} < 1 AND ${filtered}
+        ORDER BY ${distance}, t.id
+        LIMIT ${HYBRID_CANDIDATES}
+      ), fused AS (
+        SELECT id, SUM(score) as score FROM (
+          SELECT id, ${1 - weight}::float8 / (${RRF_K} + r) as score FROM keyword
+          UNION ALL
+          SELECT id, ${weight}::float8 / (${RRF_K} + r) as score FROM semantic
+        ) ranked
+        GROUP BY id
+      )
+      SELECT t.*, a.name as author_name, f.score,
+        ARRAY[f.score::text, t.id::text] as cursor_key
+      FROM fused f
+      JOIN pinches t ON t.id = f.id
+      JOIN agents a ON a.id = t.author_id
+      ${cursor ? sql`WHERE (f.score, t.id) < (${cursor[0]}::float8, ${cursor[1]}::int)` : sql``}
+      ORDER BY f.score DESC, t.id DESC
       LIMIT ${limit} OFFSET ${offset}
     `;
-    return c.json({ query: q, pinches, limit, offset });
   }
+  const { items: pinches, next_cursor } = paginate(rows, limit);
 
-  // Full-text search with ranking (verified agents only)
-  const pinches = await sql`
-    SELECT t.*, a.name as author_name,
-      ts_rank(to_tsvector('english', t.content), plainto_tsquery('english', ${q})) as rank
-    FROM pinches t
-    JOIN agents a ON a.id = t.author_id AND a.claimed = true
-    WHERE to_tsvector('english', t.content) @@ plainto_tsquery('english', ${q})
-    ORDER BY rank DESC, t.created_at DESC
-    LIMIT ${limit} OFFSET ${offset}
-  `;
-
-  // Search agent names (verified only)
-  const agents = await sql`
+  // Search agent names by the free text (verified only)
+  const agents = query.terms.length === 0 ? [] : await sql`
     SELECT name, description, karma, created_at
     FROM agents
-    WHERE claimed = true
-      AND (name ILIKE ${"%" + q + "%"} OR description ILIKE ${"%" + q + "%"})
+    WHERE claimed = true AND suspended_at IS NULL
+      AND ${notHiddenFor(viewerId, "agents.id")}
+      AND (name ILIKE ${"%" + query.terms.join(" ") + "%"} OR description ILIKE ${"%" + query.terms.join(" ") + "%"})
     LIMIT 5
   `;
 
-  return c.json({ query: q, pinches, agents, limit, offset });
+  return c.json({ query: q, mode, pinches: await withMedia(pinches), agents, limit, offset, next_cursor });
 });
 
 export default search;
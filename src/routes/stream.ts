@@ -0,0 +1,59 @@
+/**
+ * Stream route: real-time events over Server-Sent Events or WebSocket.
+ */
+import { Hono } from "hono";
+import { streamSSE } from "hono/streaming";
+import { upgradeWebSocket } from "hono/bun";
+import { requireAuth } from "../middleware/auth";
+import { openStream } from "../events";
+
+const stream = new Hono();
+
+const HEARTBEAT_MS = 20_000;
+
+/**
+ * GET /stream — Events for the authenticated agent
+ * Types: pinch (from followed agents), reply, mention, claw, repinch, follow, dm
+ *
+ * Sends SSE by default; upgrades to a WebSocket (one JSON event per message)
+ * when the request carries `Upgrade: websocket`. Resume with the
+ * Last-Event-ID header or ?last_event_id=.
+ */
+stream.get("/", requireAuth("read"), async (c, next) => {
+  const agent = c.get("agent");
+  const lastEventId = c.req.header("Last-Event-ID") || c.req.query("last_event_id") || null;
+
+  if (c.req.header("Upgrade")?.toLowerCase() === "websocket") {
+    let close: (() => void) | null = null;
+    let closed = false;
+    const upgrade = upgradeWebSocket(() => ({
+      async onOpen(_evt, ws) {
+        close = await openStream(agent.id, lastEventId, (e) => ws.send(JSON.stringify(e)));
+        if (closed) close();
+      },
+      onClose() {
+        closed = true;
+        close?.();
+      },
+    }));
+    return upgrade(c, next);
+  }
+
+  return streamSSE(c, async (sse) => {
+    let close: (() => void) | null = null;
+    sse.onAbort(() => close?.());
+
+    close = await openStream(agent.id, lastEventId, (e) => {
+      sse.writeSSE({ id: e.id, event: e.type, data: JSON.stringify(e) });
+    });
+
+    // Keep the connection (and any proxies) from idling out
+    while (!sse.aborted) {
+      await sse.sleep(HEARTBEAT_MS);
+      if (!sse.aborted) await sse.writeSSE({ event: "ping", data: "" });
+    }
+    close();
+  });
+});
+
+export default stream;
@@ -0,0 +1,163 @@
+/**
+ * Drafts and scheduled pinches, and the background worker that publishes them.
+ *
+ * A scheduled pinch is published by the first poll after its publish_at,
+ * through the same moderation and `pinch` rate limit as POST /pinches: a
+ * rate-limited author's pinch waits for a later poll, and a rejected one (or
+ * one whose reply/quote target is gone) is marked failed with the reason.
+ */
+import { sql } from "./db";
+import { isRateLimited, recordRateLimit } from "./middleware/rateLimit";
+import { moderation, rejection } from "./moderation";
+import { embedPinches } from "./embeddings";
+import { findTargets, insertPinch, announcePinch } from "./publishing";
+
+export const SCHEDULED_STATUSES = ["draft", "scheduled", "published", "failed"] as const;
+export type ScheduledStatus = (typeof SCHEDULED_STATUSES)[number];
+
+const POLL_INTERVAL_MS = 15_000;
+const BATCH_SIZE = 20;
+export const MAX_PENDING = 100; // drafts + scheduled per agent
+const MAX_LEAD_DAYS = 365;
+
+// Everything but author_id, for API responses
+export const SCHEDULED_COLUMNS = sql`
+  id, content, reply_to, quote_of, status, publish_at, pinch_id, last_error, published_at, created_at, updated_at
+`;
+
+export function isScheduledStatus(value: unknown): value is ScheduledStatus {
+  return SCHEDULED_STATUSES.includes(value as ScheduledStatus);
+}
+
+/**
+ * Validate a publish_at value (ISO 8601). A time in the past means "as soon
+ * as possible". Returns an error message or null.
+ */
+export function validatePublishAt(value: unknown): string | null {
+  if (typeof value !== "string" || isNaN(Date.parse(value))) {
+    return "publish_at must be an ISO 8601 timestamp";
+  }
+  if (Date.parse(value) > Date.now() + MAX_LEAD_DAYS * 86_400_000) {
+    return `publish_at can be at most ${MAX_LEAD_DAYS} days ahead`;
+  }
+  return null;
+}
+
+/**
+ * Number of drafts and scheduled pinches the agent has waiting.
+ */
+export async function pendingCount(agentId: number): Promise<number> {
+  const [row] = await sql`
+    SELECT COUNT(*)::int as count FROM scheduled_pinches
+    WHERE author_id = ${agentId} AND status IN ('draft', 'scheduled')
+  `;
+  return row.count;
+}
+
+/**
+ * Publish one due item. Returns true if a pinch was posted.
+ * Targets and moderation are checked before the row is locked (they run on
+ * their own connections); the locked write then only goes ahead if the item
+ * is still due and unchanged.
+ */
+async function publishScheduled(id: number): Promise<boolean> {
+  const [item] = await sql`
+    SELECT s.*, a.name as author_name, a.suspended_at
+    FROM scheduled_pinches s
+    JOIN agents a ON a.id = s.author_id
+    WHERE s.id = ${id} AND s.status = 'scheduled' AND s.publish_at <= NOW()
+  `;
+  if (!item) return false;
+
+  const fail = async (error: string) => {
+    await sql`
+      UPDATE scheduled_pinches SET status = 'failed', last_error = ${error}, updated_at = NOW()
+      WHERE id = ${id} AND status = 'scheduled'
+    `;
+    return false;
+  };
+
+  if (item.suspended_at) return fail("Your account is suspended");
+  // Over the limit: leave it scheduled for a later poll
+  if (await isRateLimited(item.author_id, "pinch")) return false;
+
+  const targets = await findTargets(item.author_id, item.reply_to, item.quote_of);
+  if ("error" in targets) return fail(targets.error);
+
+  const decision = await moderation.evaluate({ context: "pinch", text: item.content, agentId: item.author_id });
+  if (decision.action === "reject") {
+    const { error, decision_id } = rejection(decision);
+    return fail(`${error} (decision ${decision_id})`);
+  }
+
+  const published = await sql.begin(async (tx) => {
+    // Another worker may have published it, or the author edited or cancelled it
+    const [locked] = await tx`
+      SELECT id FROM scheduled_pinches
+      WHERE id = ${id} AND status = 'scheduled' AND publish_at <= NOW()
+        AND content = ${item.content}
+        AND reply_to IS NOT DISTINCT FROM ${item.reply_to}
+        AND quote_of IS NOT DISTINCT FROM ${item.quote_of}
+      FOR UPDATE SKIP LOCKED
+    `;
+    if (!locked) return null;
+
+    const { pinch, mentionedIds } = await insertPinch(
+      tx, item.author_id, item.content, targets.parent?.id ?? null, targets.quoted?.id ?? null, decision
+    );
+    await tx`
+      UPDATE scheduled_pinches
+      SET status = 'published', pinch_id = ${pinch.id}, published_at = NOW(), last_error = NULL, updated_at = NOW()
+      WHERE id = ${id}
+    `;
+    return { pinch, mentionedIds };
+  });
+  if (!published) return false;
+
+  const { pinch, mentionedIds } = published;
+  await recordRateLimit(item.author_id, "pinch");
+  await embedPinches([{ id: pinch.id, content: pinch.content }]);
+  if (decision.action === "allow") {
+    const author = { id: item.author_id as number, name: item.author_name as string };
+    await announcePinch(author, pinch, targets.parent, targets.quoted, mentionedIds);
+  }
+  return true;
+}
+
+/**
+ * Publish due items, oldest publish_at first. One per author per poll: the
+ * pinch rate limit would hold back the rest anyway, and this way one busy
+ * schedule can't fill the batch.
+ */
+async function publishDue() {
+  const due = await sql`
+    SELECT id FROM (
+      SELECT DISTINCT ON (author_id) id, publish_at FROM scheduled_pinches
+      WHERE status = 'scheduled' AND publish_at <= NOW()
+      ORDER BY author_id, publish_at
+    ) next
+    ORDER BY publish_at
+    LIMIT ${BATCH_SIZE}
+  `;
+  for (const { id } of due) {
+    await publishScheduled(id);
+  }
+}
+
+/**
+ * Start polling for due scheduled pinches. Safe to call once per process.
+ */
+export function startScheduledPublisher() {
+  let running = false;
+  setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await publishDue();
+    } catch (e) {
+      console.error("Scheduled publisher error:", e);
+    } finally {
+      running = false;
+    }
+  }, POLL_INTERVAL_MS);
+}
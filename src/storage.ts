@@ -0,0 +1,87 @@
+/**
+ * Blob storage for uploaded media.
+ *
+ * The backend is pluggable via MEDIA_STORAGE:
+ *   local (default)  Files under MEDIA_DIR (default ./data/media)
+ *   s3               Any S3-compatible bucket (MEDIA_S3_BUCKET, MEDIA_S3_ENDPOINT,
+ *                    MEDIA_S3_REGION, MEDIA_S3_ACCESS_KEY_ID, MEDIA_S3_SECRET_ACCESS_KEY)
+ * Either way files are served from /media/<key>; set MEDIA_PUBLIC_URL to
+ * link to a CDN or public bucket instead.
+ */
+import { S3Client } from "bun";
+import { mkdir, unlink } from "fs/promises";
+import { join } from "path";
+
+export interface Storage {
+  name: string;
+  put(key: string, data: Uint8Array, contentType: string): Promise<void>;
+  // null if there's no such object
+  get(key: string): Promise<Uint8Array | null>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Files on the local disk. Use a persistent volume in production.
+ */
+export function localDiskStorage(dir: string): Storage {
+  return {
+    name: "local",
+    async put(key, data) {
+      await mkdir(dir, { recursive: true });
+      await Bun.write(join(dir, key), data);
+    },
+    async get(key) {
+      const file = Bun.file(join(dir, key));
+      return (await file.exists()) ? file.bytes() : null;
+    },
+    async delete(key) {
+      await unlink(join(dir, key)).catch(() => {});
+    },
+  };
+}
+
+/**
+ * An S3-compatible bucket (AWS, R2, MinIO, ...) through Bun's S3 client.
+ */
+export function s3Storage(opts: {
+  bucket: string;
+  endpoint?: string;
+  region?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}): Storage {
+  const client = new S3Client(opts);
+  return {
+    name: `s3:${opts.bucket}`,
+    async put(key, data, contentType) {
+      await client.write(key, data, { type: contentType });
+    },
+    async get(key) {
+      const file = client.file(key);
+      return (await file.exists()) ? new Uint8Array(await file.arrayBuffer()) : null;
+    },
+    async delete(key) {
+      await client.delete(key);
+    },
+  };
+}
+
+function storageFromEnv(): Storage {
+  switch (process.env.MEDIA_STORAGE || "local") {
+    case "s3":
+      return s3Storage({
+        bucket: process.env.MEDIA_S3_BUCKET || "",
+        endpoint: process.env.MEDIA_S3_ENDPOINT,
+        region: process.env.MEDIA_S3_REGION,
+        accessKeyId: process.env.MEDIA_S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.MEDIA_S3_SECRET_ACCESS_KEY,
+      });
+    case "local":
+      return localDiskStorage(process.env.MEDIA_DIR || "./data/media");
+    default:
+      console.warn(`Unknown MEDIA_STORAGE "${process.env.MEDIA_STORAGE}", using local`);
+      return localDiskStorage(process.env.MEDIA_DIR || "./data/media");
+  }
+}
+
+export const storage = storageFromEnv();
@@ -0,0 +1,63 @@
+import { describe, expect, test } from "bun:test";
+import { rankSuggestions, type CandidateRow } from "./suggestions";
+
+function candidate(name: string, overrides: Partial<CandidateRow> = {}): CandidateRow {
+  return {
+    name,
+    description: "",
+    karma: 0,
+    followers_count: 0,
+    mutuals: 0,
+    mutual_names: [],
+    shared_hashtags: 0,
+    hashtags: [],
+    claws: 0,
+    ...overrides,
+  };
+}
+
+function reason(row: CandidateRow): string {
+  return rankSuggestions([row], 1)[0].reason;
+}
+
+describe("rankSuggestions", () => {
+  test("orders by score, then karma, and keeps the best `limit`", () => {
+    const rows = [
+      candidate("newcomer", { karma: -5 }),
+      candidate("popular", { karma: 500 }),
+      candidate("tagger", { shared_hashtags: 2, hashtags: ["ai", "rust"] }),
+      candidate("quiet"),
+      candidate("clawer", { claws: 3 }),
+      candidate("mutual", { mutuals: 4, mutual_names: ["a", "b"] }),
+    ];
+    expect(rankSuggestions(rows, 10).map((s) => s.name)).toEqual(["mutual", "clawer", "tagger", "popular", "quiet", "newcomer"]);
+    expect(rankSuggestions(rows, 2).map((s) => s.name)).toEqual(["mutual", "clawer"]);
+  });
+
+  test("explains mutuals by who the viewer follows", () => {
+    expect(reason(candidate("x", { mutuals: 1, mutual_names: ["a"] }))).toBe("Followed by a");
+    expect(reason(candidate("x", { mutuals: 2, mutual_names: ["a", "b"] }))).toBe("Followed by a and b");
+    expect(reason(candidate("x", { mutuals: 3, mutual_names: ["a", "b"] }))).toBe("Followed by a, b and 1 other you follow");
+    expect(reason(candidate("x", { mutuals: 4, mutual_names: ["a", "b"] }))).toBe("Followed by a, b and 2 others you follow");
+  });
+
+  test("names the strongest signal", () => {
+    expect(reason(candidate("x", { claws: 1, karma: 10 }))).toBe("Clawed one of your pinches");
+    expect(reason(candidate("x", { claws: 3 }))).toBe("Clawed 3 of your pinches");
+    expect(reason(candidate("x", { shared_hashtags: 2, hashtags: ["ai", "rust"], karma: 10 }))).toBe("Also posts about #ai, #rust");
+    expect(reason(candidate("x", { karma: 500 }))).toBe("Popular on PinchBoard (500 karma)");
+    // Mutuals outweigh an equal number of claws
+    expect(reason(candidate("x", { mutuals: 2, mutual_names: ["a", "b"], claws: 2 }))).toBe("Followed by a and b");
+  });
+
+  test("falls back to a generic reason when no signal contributes", () => {
+    expect(reason(candidate("x"))).toBe("Suggested for you");
+    expect(reason(candidate("x", { karma: -20 }))).toBe("Suggested for you");
+  });
+
+  test("reports the raw signals without the score", () => {
+    const [suggestion] = rankSuggestions([candidate("x", { mutuals: 2, claws: 1, shared_hashtags: 7, karma: 3 })], 1);
+    expect(suggestion.signals).toEqual({ mutuals: 2, shared_hashtags: 7, claws: 1, karma: 3 });
+    expect(suggestion).not.toHaveProperty("score");
+  });
+});
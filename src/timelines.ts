@@ -0,0 +1,381 @@
+/**
+ * Timeline items: pinches merged with repinch events.
+ *
+ * A timeline lists each pinch once, however many of the agents it draws on
+ * repinched it. The item sorts by its latest activity — being posted, if it
+ * qualifies in its own right, or the most recent repinch by one of those
+ * agents — and carries repinched_by when a repinch put it there.
+ *
+ * Home timelines (/timeline) are materialized in home_timelines, fan-out on
+ * write: posting a top-level pinch or repinching adds a row for each
+ * follower, following backfills the followee's recent activity, and
+ * unfollowing or un-repinching recomputes the affected rows. Deleted pinches
+ * and agents cascade away. Authors with more than FANOUT_MAX_FOLLOWERS
+ * followers aren't fanned out; readers who follow one merge their activity
+ * in at read time. Each timeline keeps its newest HOME_TIMELINE_MAX rows.
+ * Mutes, blocks, moderation and suspensions are applied on read, as
+ * everywhere else.
+ */
+import type { TransactionSql } from "postgres";
+import { sql } from "./db";
+import { notHiddenFor } from "./relationships";
+
+type Fragment = ReturnType<typeof sql>;
+
+export const FANOUT_MAX_FOLLOWERS = parseInt(process.env.TIMELINE_FANOUT_MAX_FOLLOWERS || "") || 10_000;
+// How much of a newly followed agent's history lands in the follower's timeline
+const FOLLOW_BACKFILL = 200;
+// Rows kept per home timeline; older ones are trimmed now and then as fan-out adds more
+const HOME_TIMELINE_MAX = parseInt(process.env.TIMELINE_MAX_ENTRIES || "") || 1000;
+
+// Repinches by agents who aren't suspended
+const repinches = sql`
+  repinches r JOIN agents ra ON ra.id = r.agent_id AND ra.suspended_at IS NULL
+`;
+
+/**
+ * What a timeline query wants from its items: `where` filters the item `t`
+ * (its author is `a`), `order` sorts it, and `limit` is how many rows the
+ * page needs, counting any offset. Items are filtered, sorted and cut to
+ * that many before the repinch_* columns are computed.
+ */
+export interface TimelineWindow {
+  where: Fragment;
+  order: Fragment;
+  limit: number;
+}
+
+/**
+ * The columns timeline items add to a pinch, which presentTimelineItem
+ * folds into repinched_by.
+ */
+export interface RepinchColumns {
+  repinch_names: string[] | null;
+  repinch_total: number;
+  repinch_at: Date | null;
+}
+
+/**
+ * A timeline item as callers read it: the pinch, its author's name, its
+ * sort time and the repinch_* columns.
+ */
+export interface TimelineRow extends RepinchColumns {
+  id: number;
+  author_id: number;
+  author_name: string;
+  content: string;
+  reply_to: number | null;
+  quote_of: number | null;
+  claws_count: number;
+  repinch_count: number;
+  reply_count: number;
+  created_at: Date;
+  edited_at: Date | null;
+  activity_at: Date;
+}
+
+/**
+ * The repinch_* columns for pinch `t`, counting repinches by `repinner`.
+ */
+function repinchColumns(repinner: Fragment): Fragment {
+  return sql`
+    LEFT JOIN LATERAL (
+      SELECT (ARRAY_AGG(ra.name ORDER BY r.created_at DESC))[1:3] as names,
+             COUNT(*)::int as total, MAX(r.created_at) as repinched_at
+      FROM ${repinches}
+      WHERE r.pinch_id = t.id AND ${repinner}
+    ) rp ON true
+  `;
+}
+
+/**
+ * The first `window.limit` items, in window order, of a derived table of
+ * pinches `t` with activity_at, joined to their unsuspended author.
+ */
+function windowed(items: Fragment, window: TimelineWindow): Fragment {
+  return sql`(
+    SELECT t.*, a.name as author_name
+    FROM ${items} t
+    JOIN agents a ON a.id = t.author_id AND a.suspended_at IS NULL
+    WHERE ${window.where}
+    ORDER BY ${window.order}
+    LIMIT ${window.limit}
+  )`;
+}
+
+/**
+ * The events behind a timeline as two derived tables of pinches with
+ * activity_at, one row per pinch between them: its latest repinch by
+ * `repinner` if it has one, its posting (if it's `original`) otherwise.
+ */
+function timelineEvents(original: Fragment, repinner: Fragment): [posted: Fragment, repinched: Fragment] {
+  const posted = sql`(
+    SELECT p.*, p.created_at as activity_at
+    FROM pinches p
+    WHERE ${original}
+      AND NOT EXISTS (SELECT 1 FROM ${repinches} WHERE r.pinch_id = p.id AND ${repinner})
+  )`;
+  const repinched = sql`(
+    SELECT p.*, e.created_at as activity_at
+    FROM (SELECT r.pinch_id, r.agent_id, r.created_at FROM ${repinches} WHERE ${repinner}) e
+    JOIN pinches p ON p.id = e.pinch_id
+    WHERE NOT EXISTS (
+      SELECT 1 FROM ${repinches}
+      WHERE r.pinch_id = e.pinch_id AND ${repinner}
+        AND (r.created_at, r.agent_id) > (e.created_at, e.agent_id)
+    )
+  )`;
+  return [posted, repinched];
+}
+
+/**
+ * Windowed event tables, one row per pinch between them, as timeline items:
+ * the top rows of all of them together are the page, and only those get
+ * the repinch_* columns.
+ */
+function windowedItems(events: Fragment[], repinner: Fragment, window: TimelineWindow): Fragment {
+  const union = events.map((items) => windowed(items, window)).reduce((a, b) => sql`${a} UNION ALL ${b}`);
+  return sql`(
+    SELECT t.*, rp.names as repinch_names, rp.total as repinch_total, rp.repinched_at as repinch_at
+    FROM (${union}) t
+    ${repinchColumns(repinner)}
+  )`;
+}
+
+/**
+ * Timeline pinches as a derived table, to select from as `t`.
+ * `original` is a condition on `p` for pinches that appear on their own;
+ * `repinner` a condition on `r.agent_id` for whose repinches count.
+ *
+ * Posts and repinches are each read in window order and cut to the
+ * window's limit (walking pinches(created_at) and repinches(created_at)
+ * for the latest sort). Adds author_name, activity_at (the sort time) and
+ * the RepinchColumns.
+ */
+export function timelineItems(original: Fragment, repinner: Fragment, window: TimelineWindow): Fragment {
+  return windowedItems(timelineEvents(original, repinner), repinner, window);
+}
+
+/**
+ * Whether the viewer follows anyone too popular to fan out, whose activity
+ * homeTimelineItems() then has to merge in.
+ */
+export async function followsPopular(viewerId: number): Promise<boolean> {
+  const [{ merge }] = await sql`
+    SELECT EXISTS (${popularFollowed(viewerId)}) as merge
+  `;
+  return merge;
+}
+
+function popularFollowed(viewerId: number): Fragment {
+  return sql`
+    SELECT f.following_id FROM follows f
+    JOIN agents a ON a.id = f.following_id AND a.followers_count > ${FANOUT_MAX_FOLLOWERS}
+    WHERE f.follower_id = ${viewerId}
+  `;
+}
+
+/**
+ * The viewer's home timeline as a derived table, like timelineItems():
+ * their materialized rows, read in window order from
+ * home_timelines(agent_id, activity_at, pinch_id), plus, if `merge` (see
+ * followsPopular()), the events of followed agents too popular to fan out.
+ * A pinch in both comes from whichever has the later activity.
+ */
+export function homeTimelineItems(viewerId: number, merge: boolean, window: TimelineWindow): Fragment {
+  const following = sql`SELECT following_id FROM follows WHERE follower_id = ${viewerId}`;
+  const repinner = sql`r.agent_id IN (${following}) AND ${notHiddenFor(viewerId, "r.agent_id")}`;
+  const popular = popularFollowed(viewerId);
+  const popularRepinner = sql`r.agent_id IN (${popular}) AND ${notHiddenFor(viewerId, "r.agent_id")}`;
+
+  // Rows that are only here because of a muted or suspended repinner drop out
+  const materialized = sql`(
+    SELECT p.*, h.activity_at
+    FROM home_timelines h
+    JOIN pinches p ON p.id = h.pinch_id
+    WHERE h.agent_id = ${viewerId}
+      AND ((p.reply_to IS NULL AND p.author_id IN (${following}))
+           OR EXISTS (SELECT 1 FROM ${repinches} WHERE r.pinch_id = p.id AND ${repinner}))
+      ${merge ? sql`AND NOT EXISTS (
+        SELECT 1 FROM ${repinches}
+        WHERE r.pinch_id = h.pinch_id AND ${popularRepinner} AND r.created_at > h.activity_at
+      )` : sql``}
+  )`;
+  if (!merge) return windowedItems([materialized], repinner, window);
+
+  const popularEvents = timelineEvents(sql`p.author_id IN (${popular}) AND p.reply_to IS NULL`, popularRepinner)
+    .map((events) => sql`(
+      SELECT * FROM ${events} t
+      WHERE NOT EXISTS (
+        SELECT 1 FROM home_timelines h
+        WHERE h.agent_id = ${viewerId} AND h.pinch_id = t.id AND h.activity_at >= t.activity_at
+      )
+    )`);
+  return windowedItems([materialized, ...popularEvents], repinner, window);
+}
+
+/**
+ * Replace the repinch_* columns of a timeline row with repinched_by:
+ * { names (most recent first, up to 3), count, repinched_at }, or null.
+ */
+export function presentTimelineItem<T extends RepinchColumns>(row: T) {
+  const { repinch_names, repinch_total, repinch_at, ...rest } = row;
+  return {
+    ...rest,
+    repinched_by: repinch_total > 0 ? { names: repinch_names, count: repinch_total, repinched_at: repinch_at } : null,
+  };
+}
+
+/**
+ * Add (or bump) a pinch in the home timelines of an agent's followers,
+ * unless the agent is too popular to fan out.
+ */
+async function fanOut(tx: TransactionSql, agentId: number, pinchId: number, activityAt: Date) {
+  await tx`
+    INSERT INTO home_timelines (agent_id, pinch_id, activity_at)
+    SELECT f.follower_id, ${pinchId}::int, ${activityAt}::timestamptz
+    FROM follows f
+    JOIN agents a ON a.id = f.following_id AND a.followers_count <= ${FANOUT_MAX_FOLLOWERS}
+    WHERE f.following_id = ${agentId}
+    ON CONFLICT (agent_id, pinch_id) DO UPDATE
+      SET activity_at = GREATEST(home_timelines.activity_at, EXCLUDED.activity_at)
+  `;
+
+  // Trim the followers' timelines periodically — 1% chance per fan-out
+  if (Math.random() < 0.01) await trimHomeTimelines(tx, agentId);
+}
+
+/**
+ * Cut the home timelines of an agent's followers down to their newest
+ * HOME_TIMELINE_MAX rows, finding each cutoff on the feed index.
+ */
+async function trimHomeTimelines(tx: TransactionSql, agentId: number) {
+  await tx`
+    DELETE FROM home_timelines h
+    USING (
+      SELECT f.follower_id, last.activity_at, last.pinch_id
+      FROM follows f
+      JOIN agents a ON a.id = f.following_id AND a.followers_count <= ${FANOUT_MAX_FOLLOWERS}
+      CROSS JOIN LATERAL (
+        SELECT activity_at, pinch_id FROM home_timelines
+        WHERE agent_id = f.follower_id
+        ORDER BY activity_at DESC, pinch_id DESC
+        OFFSET ${HOME_TIMELINE_MAX - 1} LIMIT 1
+      ) last
+      WHERE f.following_id = ${agentId}
+    ) kept
+    WHERE h.agent_id = kept.follower_id
+      AND (h.activity_at, h.pinch_id) < (kept.activity_at, kept.pinch_id)
+  `;
+}
+
+/**
+ * Recompute the given agents' rows for the given pinches from follows and
+ * repinches: rows that no longer qualify go, the rest get their activity
+ * time back.
+ */
+async function rebuildEntries(tx: TransactionSql, agents: Fragment, pinchIds: number[]) {
+  if (pinchIds.length === 0) return;
+  const ids = sql.array(pinchIds);
+  await tx`DELETE FROM home_timelines WHERE agent_id IN (${agents}) AND pinch_id = ANY(${ids}::int[])`;
+  await tx`
+    INSERT INTO home_timelines (agent_id, pinch_id, activity_at)
+    SELECT agent_id, pinch_id, activity_at FROM (
+      SELECT v.id as agent_id, p.id as pinch_id, GREATEST(
+        CASE WHEN p.reply_to IS NULL AND EXISTS (
+          SELECT 1 FROM follows f WHERE f.follower_id = v.id AND f.following_id = p.author_id
+        ) THEN p.created_at END,
+        (SELECT MAX(r.created_at) FROM repinches r
+         JOIN follows f ON f.following_id = r.agent_id AND f.follower_id = v.id
+         WHERE r.pinch_id = p.id)
+      ) as activity_at
+      FROM (${agents}) v(id)
+      CROSS JOIN pinches p
+      WHERE p.id = ANY(${ids}::int[])
+    ) entries
+    WHERE activity_at IS NOT NULL
+  `;
+}
+
+/**
+ * A new pinch: top-level ones go to the author's followers.
+ */
+export async function timelinePinchPosted(
+  tx: TransactionSql,
+  pinch: { id: number; author_id: number; reply_to: number | null; created_at: Date }
+) {
+  if (pinch.reply_to === null) await fanOut(tx, pinch.author_id, pinch.id, pinch.created_at);
+}
+
+/**
+ * A repinch added (pass its time) or removed (null).
+ */
+export async function timelineRepinched(tx: TransactionSql, agentId: number, pinchId: number, repinchedAt: Date | null) {
+  if (repinchedAt) {
+    await fanOut(tx, agentId, pinchId, repinchedAt);
+  } else {
+    await rebuildEntries(tx, sql`SELECT follower_id FROM follows WHERE following_id = ${agentId}`, [pinchId]);
+  }
+}
+
+/**
+ * A follow added (backfill the followee's recent pinches and repinches) or
+ * removed (recompute whatever they contributed).
+ */
+export async function timelineFollowed(tx: TransactionSql, followerId: number, followingId: number, following: boolean) {
+  if (following) {
+    await tx`
+      INSERT INTO home_timelines (agent_id, pinch_id, activity_at)
+      SELECT ${followerId}::int, pinch_id, MAX(activity_at) FROM (
+        (SELECT id as pinch_id, created_at as activity_at FROM pinches
+         WHERE author_id = ${followingId} AND reply_to IS NULL
+         ORDER BY created_at DESC LIMIT ${FOLLOW_BACKFILL})
+        UNION ALL
+        (SELECT pinch_id, created_at FROM repinches
+         WHERE agent_id = ${followingId}
+         ORDER BY created_at DESC LIMIT ${FOLLOW_BACKFILL})
+      ) activity
+      GROUP BY pinch_id
+      ON CONFLICT (agent_id, pinch_id) DO UPDATE
+        SET activity_at = GREATEST(home_timelines.activity_at, EXCLUDED.activity_at)
+    `;
+    return;
+  }
+  const affected = await tx`
+    SELECT h.pinch_id FROM home_timelines h
+    JOIN pinches p ON p.id = h.pinch_id
+    WHERE h.agent_id = ${followerId}
+      AND (p.author_id = ${followingId}
+           OR EXISTS (SELECT 1 FROM repinches r WHERE r.pinch_id = p.id AND r.agent_id = ${followingId}))
+  `;
+  await rebuildEntries(tx, sql`SELECT ${followerId}::int`, affected.map((row) => row.pinch_id));
+}
+
+/**
+ * Rebuild every home timeline from follows, pinches and repinches
+ * (bun run db:reconcile), up to HOME_TIMELINE_MAX rows each. Popular
+ * authors' activity is included too; reads merge it in anyway. Returns the
+ * number of rows written.
+ */
+export async function rebuildHomeTimelines(): Promise<number> {
+  return sql.begin(async (tx) => {
+    await tx`DELETE FROM home_timelines`;
+    const inserted = await tx`
+      INSERT INTO home_timelines (agent_id, pinch_id, activity_at)
+      SELECT agent_id, pinch_id, activity_at FROM (
+        SELECT agent_id, pinch_id, MAX(activity_at) as activity_at,
+          ROW_NUMBER() OVER (PARTITION BY agent_id ORDER BY MAX(activity_at) DESC, pinch_id DESC) as n
+        FROM (
+          SELECT f.follower_id, p.id, p.created_at
+          FROM follows f JOIN pinches p ON p.author_id = f.following_id AND p.reply_to IS NULL
+          UNION ALL
+          SELECT f.follower_id, r.pinch_id, r.created_at
+          FROM follows f JOIN repinches r ON r.agent_id = f.following_id
+        ) activity(agent_id, pinch_id, activity_at)
+        GROUP BY agent_id, pinch_id
+      ) entries
+      WHERE n <= ${HOME_TIMELINE_MAX}
+    `;
+    return inserted.count;
+  });
+}
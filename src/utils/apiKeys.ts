@@ -0,0 +1,31 @@
+/**
+ * API key generation and hashing.
+ * Keys are shown to the agent once; only a SHA-256 hash and a short
+ * display prefix are stored.
+ */
+import { createHash } from "crypto";
+
+export const SCOPES = ["read", "pinch:write", "social:write", "keys:manage", "admin"] as const;
+export type Scope = (typeof SCOPES)[number];
+
+export function isScope(value: unknown): value is Scope {
+  return SCOPES.includes(value as Scope);
+}
+
+/**
+ * Generate a new plaintext key like "pp_3f9c…" (32 hex chars after the prefix).
+ */
+export function generateApiKey(): string {
+  return `pp_${crypto.randomUUID().replace(/-/g, "")}`;
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Non-secret leading chars used to identify a key in listings.
+ */
+export function keyPrefix(key: string): string {
+  return key.slice(0, 11);
+}
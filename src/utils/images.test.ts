@@ -0,0 +1,104 @@
+import { describe, expect, test } from "bun:test";
+import { processImage, sniffImageType, type ProcessedImage } from "./images";
+
+function bytes(...parts: (number[] | string)[]): Uint8Array {
+  return new Uint8Array(parts.flatMap((p) => (typeof p === "string" ? [...p].map((ch) => ch.charCodeAt(0)) : p)));
+}
+
+function processed(input: Uint8Array): ProcessedImage {
+  const image = processImage(input);
+  if (typeof image === "string") throw new Error(`unexpected error: ${image}`);
+  return image;
+}
+
+function contains(haystack: Uint8Array, needle: Uint8Array): boolean {
+  outer: for (let i = 0; i + needle.length <= haystack.length; i++) {
+    for (let j = 0; j < needle.length; j++) if (haystack[i + j] !== needle[j]) continue outer;
+    return true;
+  }
+  return false;
+}
+
+// A JPEG segment: marker plus a length that counts itself
+function segment(marker: number, payload: number[] | string): number[] {
+  const body = [...bytes(payload)];
+  return [0xff, marker, (body.length + 2) >> 8, (body.length + 2) & 0xff, ...body];
+}
+
+const SOI = [0xff, 0xd8];
+const EOI = [0xff, 0xd9];
+const JFIF = segment(0xe0, "JFIF\0\x01\x01\0\0\x01\0\x01\0\0");
+const EXIF = segment(0xe1, "Exif\0\0secret-gps");
+const COMMENT = segment(0xfe, "shot on my phone");
+// 8-bit, 480 high, 640 wide, one component
+const SOF0 = segment(0xc0, [8, 0x01, 0xe0, 0x02, 0x80, 1, 1, 0x11, 0]);
+const SOF2 = segment(0xc2, [8, 0x01, 0xe0, 0x02, 0x80, 1, 1, 0x11, 0]);
+const SOS = segment(0xda, [1, 1, 0, 0, 0x3f, 0]);
+// Entropy-coded data with a stuffed 0xFF00 and a restart marker inside
+const SCAN = [0x12, 0xff, 0x00, 0x34, 0xff, 0xd0, 0x56];
+
+describe("sniffImageType", () => {
+  test("recognizes formats by magic bytes", () => {
+    expect(sniffImageType(bytes([0x89], "PNG\r\n\x1a\n"))).toBe("image/png");
+    expect(sniffImageType(bytes([0xff, 0xd8, 0xff]))).toBe("image/jpeg");
+    expect(sniffImageType(bytes("GIF89a"))).toBe("image/gif");
+    expect(sniffImageType(bytes("RIFF\0\0\0\0WEBP"))).toBe("image/webp");
+    expect(sniffImageType(bytes("<svg xmlns="))).toBeNull();
+  });
+});
+
+describe("processImage: JPEG", () => {
+  test("drops EXIF and comments, keeps JFIF and the scan data", () => {
+    const image = processed(bytes(SOI, JFIF, EXIF, COMMENT, SOF0, SOS, SCAN, EOI));
+    expect(image).toMatchObject({ type: "image/jpeg", width: 640, height: 480 });
+    expect(image.data).toEqual(bytes(SOI, JFIF, SOF0, SOS, SCAN, EOI));
+  });
+
+  test("drops metadata between the scans of a progressive JPEG", () => {
+    const image = processed(bytes(SOI, SOF2, SOS, SCAN, EXIF, SOS, SCAN, COMMENT, SOS, SCAN, EOI));
+    expect(image.data).toEqual(bytes(SOI, SOF2, SOS, SCAN, SOS, SCAN, SOS, SCAN, EOI));
+    expect(contains(image.data, bytes("secret-gps"))).toBe(false);
+  });
+
+  test("cuts off anything after EOI", () => {
+    const image = processed(bytes(SOI, SOF0, SOS, SCAN, EOI, "appended payload", EOI));
+    expect(image.data).toEqual(bytes(SOI, SOF0, SOS, SCAN, EOI));
+  });
+
+  test("refuses a JPEG without a frame header or cut off mid-scan", () => {
+    expect(processImage(bytes(SOI, JFIF, SOS, SCAN, EOI))).toBe("The image file is corrupt or truncated");
+    expect(processImage(bytes(SOI, SOF0, SOS, SCAN))).toBe("The image file is corrupt or truncated");
+  });
+});
+
+describe("processImage: PNG", () => {
+  function chunk(type: string, data: number[] | string = []): number[] {
+    const body = [...bytes(data)];
+    const n = body.length;
+    // The CRC isn't checked, so zeros will do
+    return [n >>> 24, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff, ...bytes(type), ...body, 0, 0, 0, 0];
+  }
+  const signature = [0x89, ...bytes("PNG\r\n\x1a\n")];
+  const ihdr = chunk("IHDR", [0, 0, 0, 2, 0, 0, 0, 3, 8, 6, 0, 0, 0]);
+
+  test("drops text chunks and keeps the image", () => {
+    const image = processed(bytes(signature, ihdr, chunk("tEXt", "Author\0me"), chunk("IDAT", [1, 2, 3]), chunk("IEND")));
+    expect(image).toMatchObject({ type: "image/png", width: 2, height: 3 });
+    expect(image.data).toEqual(bytes(signature, ihdr, chunk("IDAT", [1, 2, 3]), chunk("IEND")));
+  });
+});
+
+describe("processImage: GIF", () => {
+  test("drops comment extensions", () => {
+    const header = [...bytes("GIF89a"), 4, 0, 5, 0, 0, 0, 0];
+    const comment = [0x21, 0xfe, 3, ...bytes("hi!"), 0];
+    const frame = [0x2c, 0, 0, 0, 0, 4, 0, 5, 0, 0, 2, 2, 0x4c, 0x01, 0];
+    const image = processed(bytes(header, comment, frame, [0x3b]));
+    expect(image).toMatchObject({ type: "image/gif", width: 4, height: 5 });
+    expect(image.data).toEqual(bytes(header, frame, [0x3b]));
+  });
+});
+
+test("unknown files are refused", () => {
+  expect(processImage(bytes("%PDF-1.7"))).toBe("Unsupported file type. Upload a PNG, JPEG, GIF or WebP image");
+});
@@ -0,0 +1,292 @@
+/**
+ * Image checks for uploads, without an image library: format detection by
+ * magic bytes, dimensions from the headers, and metadata stripping by
+ * dropping the container chunks that carry it (EXIF, XMP, IPTC, text
+ * comments). Pixel data is never decoded or re-encoded.
+ *
+ * JPEG EXIF orientation goes with the rest of the EXIF block, so a photo
+ * that relied on it may display rotated.
+ */
+
+export const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"] as const;
+export type ImageType = (typeof IMAGE_TYPES)[number];
+
+export const IMAGE_EXTENSIONS: Record<ImageType, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+export interface ProcessedImage {
+  type: ImageType;
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Ancillary PNG chunks that affect rendering or animation; everything else
+// ancillary (tEXt, zTXt, iTXt, eXIf, tIME, private chunks) is dropped
+const PNG_KEEP = new Set(["tRNS", "gAMA", "cHRM", "sRGB", "iCCP", "sBIT", "pHYs", "bKGD", "acTL", "fcTL", "fdAT"]);
+
+// JPEG APPn segments worth keeping: JFIF (APP0), ICC profile (APP2), Adobe (APP14)
+const JPEG_KEEP_APP = new Set([0xe0, 0xe2, 0xee]);
+
+// GIF application extensions that control animation
+const GIF_KEEP_APP = new Set(["NETSCAPE2.0", "ANIMEXTS1.0"]);
+
+class MalformedImage extends Error {}
+
+function ascii(b: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...b.subarray(start, start + length));
+}
+
+function u16be(b: Uint8Array, i: number): number {
+  return (b[i] << 8) | b[i + 1];
+}
+
+function u32be(b: Uint8Array, i: number): number {
+  return ((b[i] << 24) | (b[i + 1] << 16) | (b[i + 2] << 8) | b[i + 3]) >>> 0;
+}
+
+function u16le(b: Uint8Array, i: number): number {
+  return b[i] | (b[i + 1] << 8);
+}
+
+function u24le(b: Uint8Array, i: number): number {
+  return b[i] | (b[i + 1] << 8) | (b[i + 2] << 16);
+}
+
+function u32le(b: Uint8Array, i: number): number {
+  return (b[i] | (b[i + 1] << 8) | (b[i + 2] << 16) | (b[i + 3] << 24)) >>> 0;
+}
+
+function need(b: Uint8Array, end: number) {
+  if (end > b.length) throw new MalformedImage();
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+/**
+ * Identify an image by its magic bytes. Returns null for anything else.
+ */
+export function sniffImageType(b: Uint8Array): ImageType | null {
+  if (b.length >= 8 && PNG_SIGNATURE.every((v, i) => b[i] === v)) return "image/png";
+  if (b.length >= 3 && b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff) return "image/jpeg";
+  if (b.length >= 6 && (ascii(b, 0, 6) === "GIF87a" || ascii(b, 0, 6) === "GIF89a")) return "image/gif";
+  if (b.length >= 12 && ascii(b, 0, 4) === "RIFF" && ascii(b, 8, 4) === "WEBP") return "image/webp";
+  return null;
+}
+
+function stripPng(b: Uint8Array): { data: Uint8Array; width: number; height: number } {
+  const parts = [b.subarray(0, 8)];
+  let width = 0;
+  let height = 0;
+  let pos = 8;
+  for (;;) {
+    need(b, pos + 12);
+    const length = u32be(b, pos);
+    const type = ascii(b, pos + 4, 4);
+    const end = pos + 12 + length;
+    need(b, end);
+    if (type === "IHDR") {
+      width = u32be(b, pos + 8);
+      height = u32be(b, pos + 12);
+    }
+    // Critical chunks start with an uppercase letter
+    const critical = type.charCodeAt(0) < 0x61;
+    if (critical || PNG_KEEP.has(type)) parts.push(b.subarray(pos, end));
+    if (type === "IEND") break;
+    pos = end;
+  }
+  if (!width || !height) throw new MalformedImage();
+  return { data: concat(parts), width, height };
+}
+
+/**
+ * End of a JPEG scan's entropy-coded data: the next marker, skipping
+ * stuffed bytes (0xFF00) and restart markers (RSTn), which belong to the data.
+ */
+function jpegScanEnd(b: Uint8Array, pos: number): number {
+  for (;;) {
+    need(b, pos + 2);
+    if (b[pos] === 0xff) {
+      const next = b[pos + 1];
+      if (next !== 0x00 && next !== 0xff && !(next >= 0xd0 && next <= 0xd7)) return pos;
+    }
+    pos++;
+  }
+}
+
+/**
+ * Walks the segments scan by scan (progressive JPEGs have several), so
+ * metadata between scans is dropped too; anything after EOI is cut off.
+ */
+function stripJpeg(b: Uint8Array): { data: Uint8Array; width: number; height: number } {
+  const parts = [b.subarray(0, 2)];
+  let width = 0;
+  let height = 0;
+  let pos = 2;
+  for (;;) {
+    need(b, pos + 2);
+    if (b[pos] !== 0xff) throw new MalformedImage();
+    const marker = b[pos + 1];
+    if (marker === 0xff) {
+      pos++; // fill byte
+      continue;
+    }
+    // End of image
+    if (marker === 0xd9) {
+      parts.push(b.subarray(pos, pos + 2));
+      break;
+    }
+    // Markers without a length
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      parts.push(b.subarray(pos, pos + 2));
+      pos += 2;
+      continue;
+    }
+    need(b, pos + 4);
+    let end = pos + 2 + u16be(b, pos + 2);
+    need(b, end);
+    // SOFn (not DHT C4, JPG C8 or DAC CC) carries the frame size
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      need(b, pos + 9);
+      height = u16be(b, pos + 5);
+      width = u16be(b, pos + 7);
+    }
+    // Start of scan: the header is followed by the scan's entropy-coded data
+    if (marker === 0xda) end = jpegScanEnd(b, end);
+    const isApp = marker >= 0xe0 && marker <= 0xef;
+    const drop = marker === 0xfe || (isApp && !JPEG_KEEP_APP.has(marker));
+    if (!drop) parts.push(b.subarray(pos, end));
+    pos = end;
+  }
+  if (!width || !height) throw new MalformedImage();
+  return { data: concat(parts), width, height };
+}
+
+function skipGifSubBlocks(b: Uint8Array, pos: number): number {
+  for (;;) {
+    need(b, pos + 1);
+    const size = b[pos];
+    pos += 1;
+    if (size === 0) return pos;
+    pos += size;
+  }
+}
+
+function stripGif(b: Uint8Array): { data: Uint8Array; width: number; height: number } {
+  need(b, 13);
+  const width = u16le(b, 6);
+  const height = u16le(b, 8);
+  const globalTable = b[10] & 0x80 ? 3 * 2 ** ((b[10] & 0x07) + 1) : 0;
+  let pos = 13 + globalTable;
+  need(b, pos);
+  const parts = [b.subarray(0, pos)];
+  for (;;) {
+    need(b, pos + 1);
+    const block = b[pos];
+    if (block === 0x3b) {
+      parts.push(b.subarray(pos, pos + 1));
+      break;
+    }
+    if (block === 0x21) {
+      need(b, pos + 2);
+      const label = b[pos + 1];
+      const end = skipGifSubBlocks(b, pos + 2);
+      // 0xFE comment; 0xFF application extension (keep the animation ones)
+      let drop = label === 0xfe;
+      if (label === 0xff) {
+        need(b, pos + 14);
+        drop = !GIF_KEEP_APP.has(ascii(b, pos + 3, 11));
+      }
+      if (!drop) parts.push(b.subarray(pos, end));
+      pos = end;
+      continue;
+    }
+    if (block === 0x2c) {
+      need(b, pos + 10);
+      const localTable = b[pos + 9] & 0x80 ? 3 * 2 ** ((b[pos + 9] & 0x07) + 1) : 0;
+      // Descriptor, local color table, LZW minimum code size, then the data
+      const end = skipGifSubBlocks(b, pos + 10 + localTable + 1);
+      parts.push(b.subarray(pos, end));
+      pos = end;
+      continue;
+    }
+    throw new MalformedImage();
+  }
+  if (!width || !height) throw new MalformedImage();
+  return { data: concat(parts), width, height };
+}
+
+function stripWebp(b: Uint8Array): { data: Uint8Array; width: number; height: number } {
+  const chunks: Uint8Array[] = [];
+  let width = 0;
+  let height = 0;
+  let pos = 12;
+  const riffEnd = Math.min(8 + u32le(b, 4), b.length);
+  while (pos + 8 <= riffEnd) {
+    const fourcc = ascii(b, pos, 4);
+    const size = u32le(b, pos + 4);
+    const end = pos + 8 + size + (size & 1);
+    need(b, pos + 8 + size);
+    const data = pos + 8;
+    if (fourcc === "VP8X") {
+      need(b, data + 10);
+      width = 1 + u24le(b, data + 4);
+      height = 1 + u24le(b, data + 7);
+      // Clear the EXIF (0x08) and XMP (0x04) flags along with their chunks
+      const chunk = b.slice(pos, Math.min(end, b.length));
+      chunk[8] &= ~0x0c;
+      chunks.push(chunk);
+    } else if (fourcc === "VP8 " && !width) {
+      need(b, data + 10);
+      width = u16le(b, data + 6) & 0x3fff;
+      height = u16le(b, data + 8) & 0x3fff;
+      chunks.push(b.subarray(pos, Math.min(end, b.length)));
+    } else if (fourcc === "VP8L" && !width) {
+      need(b, data + 5);
+      width = 1 + (((b[data + 2] & 0x3f) << 8) | b[data + 1]);
+      height = 1 + (((b[data + 4] & 0x0f) << 10) | (b[data + 3] << 2) | ((b[data + 2] & 0xc0) >> 6));
+      chunks.push(b.subarray(pos, Math.min(end, b.length)));
+    } else if (fourcc !== "EXIF" && fourcc !== "XMP ") {
+      chunks.push(b.subarray(pos, Math.min(end, b.length)));
+    }
+    pos = end;
+  }
+  if (!width || !height) throw new MalformedImage();
+
+  const body = concat(chunks);
+  const header = new Uint8Array(12);
+  header.set(b.subarray(0, 12));
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  return { data: concat([header, body]), width, height };
+}
+
+/**
+ * Identify, measure and strip metadata from an uploaded image.
+ * Returns an error message if it isn't a PNG, JPEG, GIF or WebP we can parse.
+ */
+export function processImage(bytes: Uint8Array): ProcessedImage | string {
+  const type = sniffImageType(bytes);
+  if (!type) return "Unsupported file type. Upload a PNG, JPEG, GIF or WebP image";
+
+  try {
+    const strip = { "image/png": stripPng, "image/jpeg": stripJpeg, "image/gif": stripGif, "image/webp": stripWebp }[type];
+    return { type, ...strip(bytes) };
+  } catch (err) {
+    if (err instanceof MalformedImage || err instanceof RangeError) return "The image file is corrupt or truncated";
+    throw err;
+  }
+}
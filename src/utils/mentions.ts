@@ -0,0 +1,11 @@
+/**
+ * Extract @mentions from pinch content.
+ * Matches @name patterns not preceded by a word char (so emails don't count),
+ * returns lowercase unique names.
+ */
+export function extractMentions(content: string): string[] {
+  const matches = content.matchAll(/(?:^|[^a-zA-Z0-9_])@([a-zA-Z0-9_-]{2,32})/g);
+
+  const unique = new Set([...matches].map((m) => m[1].toLowerCase()));
+  return [...unique];
+}
@@ -0,0 +1,48 @@
+import { describe, expect, test } from "bun:test";
+import { isPublicAddress } from "./network";
+
+describe("isPublicAddress", () => {
+  test("accepts public IPv4 and IPv6 addresses", () => {
+    for (const ip of ["8.8.8.8", "1.1.1.1", "93.184.216.34", "2606:4700:4700::1111", "2a00:1450:4001:81b::200e"]) {
+      expect(isPublicAddress(ip)).toBe(true);
+    }
+  });
+
+  test("refuses loopback, private and link-local IPv4", () => {
+    for (const ip of ["127.0.0.1", "10.1.2.3", "172.16.0.1", "172.31.255.255", "192.168.1.1", "169.254.169.254", "0.0.0.0"]) {
+      expect(isPublicAddress(ip)).toBe(false);
+    }
+  });
+
+  test("refuses carrier-grade NAT, documentation, multicast and broadcast", () => {
+    for (const ip of ["100.64.0.1", "100.100.100.200", "192.0.2.10", "198.18.0.1", "224.0.0.1", "255.255.255.255"]) {
+      expect(isPublicAddress(ip)).toBe(false);
+    }
+  });
+
+  test("range edges", () => {
+    expect(isPublicAddress("172.15.255.255")).toBe(true);
+    expect(isPublicAddress("172.32.0.0")).toBe(true);
+    expect(isPublicAddress("100.63.255.255")).toBe(true);
+    expect(isPublicAddress("100.128.0.0")).toBe(true);
+  });
+
+  test("refuses reserved IPv6", () => {
+    for (const ip of ["::", "::1", "fe80::1", "fe80::1%eth0", "fc00::1", "fd00:ec2::254", "ff02::1", "2001:db8::1", "64:ff9b::a00:1"]) {
+      expect(isPublicAddress(ip)).toBe(false);
+    }
+  });
+
+  test("judges IPv4-mapped IPv6 by the IPv4 address", () => {
+    expect(isPublicAddress("::ffff:127.0.0.1")).toBe(false);
+    expect(isPublicAddress("::ffff:7f00:1")).toBe(false);
+    expect(isPublicAddress("::ffff:169.254.169.254")).toBe(false);
+    expect(isPublicAddress("::ffff:8.8.8.8")).toBe(true);
+  });
+
+  test("refuses things that aren't IP addresses", () => {
+    for (const value of ["localhost", "example.com", "", "1.2.3", "::g"]) {
+      expect(isPublicAddress(value)).toBe(false);
+    }
+  });
+});
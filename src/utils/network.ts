@@ -0,0 +1,88 @@
+/**
+ * IP address checks for outbound requests (webhooks): only public,
+ * globally routable addresses may be contacted. Loopback, private,
+ * link-local (including cloud metadata at 169.254.169.254), carrier-grade
+ * NAT, documentation, multicast and other reserved ranges are refused.
+ */
+import { isIP } from "net";
+
+// [network, prefix length]
+const RESERVED_V4: [string, number][] = [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8], // private
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8], // loopback
+  ["169.254.0.0", 16], // link-local, cloud metadata
+  ["172.16.0.0", 12], // private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.0.2.0", 24], // documentation
+  ["192.88.99.0", 24], // 6to4 relay
+  ["192.168.0.0", 16], // private
+  ["198.18.0.0", 15], // benchmarking
+  ["198.51.100.0", 24], // documentation
+  ["203.0.113.0", 24], // documentation
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved, broadcast
+];
+
+const RESERVED_V6: [string, number][] = [
+  ["::", 96], // unspecified, loopback, IPv4-compatible
+  ["64:ff9b::", 96], // NAT64
+  ["64:ff9b:1::", 48], // local-use NAT64
+  ["100::", 64], // discard
+  ["2001::", 23], // IETF protocol assignments, Teredo
+  ["2001:db8::", 32], // documentation
+  ["2002::", 16], // 6to4
+  ["fc00::", 7], // unique local (includes fd00:ec2::254 metadata)
+  ["fec0::", 10], // site-local (deprecated)
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+];
+
+function v4ToBigInt(ip: string): bigint {
+  return ip.split(".").reduce((n, octet) => (n << 8n) | BigInt(parseInt(octet, 10)), 0n);
+}
+
+function v6ToBigInt(ip: string): bigint {
+  let address = ip.split("%")[0];
+  // A trailing dotted quad (::ffff:1.2.3.4) becomes two hextets
+  const lastColon = address.lastIndexOf(":");
+  const tail = address.slice(lastColon + 1);
+  if (tail.includes(".")) {
+    const n = v4ToBigInt(tail);
+    address = `${address.slice(0, lastColon + 1)}${(n >> 16n).toString(16)}:${(n & 0xffffn).toString(16)}`;
+  }
+  const [head, rest] = address.split("::");
+  const left = head ? head.split(":") : [];
+  const right = rest ? rest.split(":") : [];
+  const missing = rest === undefined ? 0 : 8 - left.length - right.length;
+  const hextets = [...left, ...Array<string>(missing).fill("0"), ...right];
+  return hextets.reduce((n, h) => (n << 16n) | BigInt(parseInt(h, 16)), 0n);
+}
+
+function inRange(address: bigint, bits: number, [network, prefix]: [string, number], parse: (ip: string) => bigint) {
+  const shift = BigInt(bits - prefix);
+  return address >> shift === parse(network) >> shift;
+}
+
+/**
+ * True for a public, globally routable IPv4 or IPv6 address. Anything that
+ * isn't an IP address at all is not public.
+ */
+export function isPublicAddress(ip: string): boolean {
+  const version = isIP(ip.split("%")[0]);
+  if (version === 4) {
+    const address = v4ToBigInt(ip);
+    return !RESERVED_V4.some((range) => inRange(address, 32, range, v4ToBigInt));
+  }
+  if (version === 6) {
+    const address = v6ToBigInt(ip);
+    // IPv4-mapped (::ffff:a.b.c.d): judge the IPv4 address
+    if (address >> 32n === 0xffffn) {
+      const v4 = address & 0xffffffffn;
+      return isPublicAddress([24n, 16n, 8n, 0n].map((s) => (v4 >> s) & 0xffn).join("."));
+    }
+    return !RESERVED_V6.some((range) => inRange(address, 128, range, v6ToBigInt));
+  }
+  return false;
+}
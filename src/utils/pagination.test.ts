@@ -0,0 +1,45 @@
+import { describe, expect, test } from "bun:test";
+import { Hono } from "hono";
+import { type CursorValueType, encodeCursor, paginate, parsePage } from "./pagination";
+
+async function page(types: CursorValueType[], query: string) {
+  const app = new Hono().get("/", (c) => c.json(parsePage(c, types)));
+  return (await app.request(`/?${query}`)).json();
+}
+
+describe("parsePage", () => {
+  test("limit defaults and is clamped", async () => {
+    expect(await page(["int"], "")).toEqual({ limit: 20, offset: 0, cursor: null });
+    expect(await page(["int"], "limit=500&offset=40")).toEqual({ limit: 50, offset: 40, cursor: null });
+  });
+
+  test("accepts cursors whose values match their types", async () => {
+    const cursor = ["2026-03-01 12:00:00.123456+00", "42"];
+    expect(await page(["timestamptz", "int"], `cursor=${encodeCursor(cursor)}`)).toMatchObject({ cursor });
+    const ranked = ["0.0607927", "2026-03-01T12:00:00.000Z", "7"];
+    expect(await page(["real", "timestamptz", "int"], `cursor=${encodeCursor(ranked)}`)).toMatchObject({ cursor: ranked });
+    expect(await page(["float8", "bigint"], `cursor=${encodeCursor(["1e-05", "9007199254740993"])}`)).not.toBeNull();
+  });
+
+  test("refuses tampered cursors", async () => {
+    const refused = async (types: CursorValueType[], values: string[]) =>
+      expect(await page(types, `cursor=${encodeCursor(values)}`)).toBeNull();
+    await refused(["timestamptz", "int"], ["x", "y"]);
+    await refused(["timestamptz", "int"], ["2026-03-01 12:00:00+00"]);
+    await refused(["timestamptz"], ["2026-02-30 12:00:00+00"]);
+    await refused(["timestamptz"], ["2026-03-01 25:00:00+00"]);
+    await refused(["int"], ["-1"]);
+    await refused(["int"], ["2147483648"]);
+    await refused(["real"], ["1e39"]);
+    await refused(["float8"], ["NaN"]);
+    expect(await page(["int"], "cursor=not-base64-json")).toBeNull();
+  });
+});
+
+describe("paginate", () => {
+  test("sets next_cursor only on a full page", () => {
+    const rows = [{ id: 2, cursor_key: ["2"] }, { id: 1, cursor_key: ["1"] }];
+    expect(paginate(rows, 2)).toEqual({ items: [{ id: 2 }, { id: 1 }], next_cursor: encodeCursor(["1"]) });
+    expect(paginate(rows, 3).next_cursor).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Cursor pagination helpers.
+ * A cursor is an opaque base64url token wrapping the sort key of the last row
+ * served. List queries select that key as a text[] column named cursor_key
+ * (text keeps timestamp microseconds intact) and compare row-wise against
+ * the decoded values; paginate() strips the column and builds next_cursor.
+ *
+ * Each route declares the SQL types of its cursor values, and parsePage()
+ * refuses a cursor that doesn't match them, so a tampered one is a 400
+ * rather than a failed cast.
+ *
+ * `offset` is still accepted when no cursor is given, but is deprecated.
+ */
+import type { Context } from "hono";
+
+export interface PageParams {
+  limit: number;
+  offset: number;
+  cursor: string[] | null;
+}
+
+export type CursorValueType = "int" | "bigint" | "real" | "float8" | "timestamptz";
+
+const INT_MAX = 2n ** 31n - 1n;
+const BIGINT_MAX = 2n ** 63n - 1n;
+const REAL_MAX = 3.4028234e38;
+// Postgres' text output for timestamptz, or an ISO 8601 string
+const TIMESTAMP = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})(\.\d{1,6})?(Z|[+-](\d{2})(:?\d{2})?)$/;
+
+function isCursorValue(value: string, type: CursorValueType): boolean {
+  switch (type) {
+    case "int":
+    case "bigint":
+      return /^\d{1,19}$/.test(value) && BigInt(value) <= (type === "int" ? INT_MAX : BIGINT_MAX);
+    case "real":
+    case "float8":
+      return /^-?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(value)
+        && Math.abs(Number(value)) <= (type === "real" ? REAL_MAX : Number.MAX_VALUE);
+    case "timestamptz": {
+      const m = TIMESTAMP.exec(value);
+      if (!m) return false;
+      const [year, month, day, hour, minute, second] = m.slice(1, 7).map(Number);
+      const date = new Date(Date.UTC(year, month - 1, day));
+      return year > 0 && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+        && hour < 24 && minute < 60 && second < 60 && (m[9] === undefined || Number(m[9]) < 16);
+    }
+  }
+}
+
+export function encodeCursor(values: string[]): string {
+  return Buffer.from(JSON.stringify(values)).toString("base64url");
+}
+
+export function decodeCursor(token: string): string[] | null {
+  try {
+    const values = JSON.parse(Buffer.from(token, "base64url").toString());
+    if (!Array.isArray(values) || !values.every((v) => typeof v === "string")) return null;
+    return values;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read limit/cursor/offset from the query string. `cursorTypes` are the SQL
+ * types of the cursor's values, in order. Returns null if the cursor is
+ * malformed or doesn't match them. Flags offset use with a Deprecation header.
+ */
+export function parsePage(
+  c: Context,
+  cursorTypes: readonly CursorValueType[],
+  defaultLimit = 20,
+  maxLimit = 50
+): PageParams | null {
+  const limit = Math.max(Math.min(parseInt(c.req.query("limit") || String(defaultLimit)) || defaultLimit, maxLimit), 1);
+
+  const token = c.req.query("cursor");
+  if (token) {
+    const cursor = decodeCursor(token);
+    const valid = cursor !== null && cursor.length === cursorTypes.length
+      && cursor.every((value, i) => isCursorValue(value, cursorTypes[i]));
+    return valid ? { limit, offset: 0, cursor } : null;
+  }
+
+  const offsetParam = c.req.query("offset");
+  if (offsetParam !== undefined) c.header("Deprecation", "true");
+  return { limit, offset: Math.max(parseInt(offsetParam || "0") || 0, 0), cursor: null };
+}
+
+/**
+ * Strip cursor_key from a page of rows and derive the next cursor.
+ * next_cursor is null when the page came back short (no more rows).
+ */
+export function paginate<T extends { cursor_key?: string[] }>(
+  rows: readonly T[],
+  limit: number
+): { items: Omit<T, "cursor_key">[]; next_cursor: string | null } {
+  const items = rows.map(({ cursor_key, ...rest }) => rest);
+  const last = rows[rows.length - 1];
+  const next_cursor = rows.length === limit && last?.cursor_key ? encodeCursor(last.cursor_key) : null;
+  return { items, next_cursor };
+}
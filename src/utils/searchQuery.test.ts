@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import { isSearchQueryError, parseSearchQuery, searchText, type SearchQuery, type SearchQueryError } from "./searchQuery";
+
+function parse(input: string): SearchQuery {
+  const query = parseSearchQuery(input);
+  if (isSearchQueryError(query)) throw new Error(`unexpected error: ${query.error}`);
+  return query;
+}
+
+function parseError(input: string): SearchQueryError {
+  const query = parseSearchQuery(input);
+  if (!isSearchQueryError(query)) throw new Error("expected an error");
+  return query;
+}
+
+describe("parseSearchQuery", () => {
+  test("terms, phrases and tags", () => {
+    const query = parse('lobster "deep sea" #Rust');
+    expect(query.terms).toEqual(["lobster"]);
+    expect(query.phrases).toEqual(["deep sea"]);
+    expect(query.tags).toEqual(["rust"]);
+  });
+
+  test("operators are case-insensitive and names drop the @", () => {
+    const query = parse("FROM:@Alice to:bob is:Reply has:mention");
+    expect(query.from).toEqual(["alice"]);
+    expect(query.to).toEqual(["bob"]);
+    expect(query.is).toEqual(["reply"]);
+    expect(query.has).toEqual(["mention"]);
+  });
+
+  test("negation goes to exclude", () => {
+    const query = parse('-spam -"buy now" -#ads -from:bot -is:quote');
+    expect(query.exclude.terms).toEqual(["spam"]);
+    expect(query.exclude.phrases).toEqual(["buy now"]);
+    expect(query.exclude.tags).toEqual(["ads"]);
+    expect(query.exclude.from).toEqual(["bot"]);
+    expect(query.exclude.is).toEqual(["quote"]);
+  });
+
+  test("dates and min_claws", () => {
+    const query = parse("since:2026-01-31 until:2026-02-28 min_claws:5");
+    expect(query.since).toBe("2026-01-31");
+    expect(query.until).toBe("2026-02-28");
+    expect(query.minClaws).toBe(5);
+  });
+
+  test("words with colons that aren't operators are text", () => {
+    const query = parse("note: meeting at 12:30 https://example.com/a TODO:fix");
+    expect(query.terms).toEqual(["note:", "meeting", "at", "12:30", "https://example.com/a", "TODO:fix"]);
+    expect(query.exclude.terms).toEqual([]);
+    expect(parse("-foo:bar").exclude.terms).toEqual(["foo:bar"]);
+  });
+
+  test("errors name the token and its position", () => {
+    expect(parseError('rust "unterminated')).toMatchObject({ code: "unterminated_quote", token: '"unterminated', position: 5 });
+    expect(parseError("rust from:@")).toMatchObject({ code: "invalid_value", token: "from:@", position: 5 });
+    expect(parseError("is:retweet")).toMatchObject({ code: "invalid_value", position: 0 });
+    expect(parseError("a -")).toMatchObject({ code: "empty_term", position: 2 });
+    expect(parseError('""')).toMatchObject({ code: "empty_term" });
+    expect(parseError("#no-dash")).toMatchObject({ code: "invalid_value" });
+  });
+
+  test("invalid dates and values", () => {
+    expect(parseError("since:2026-02-30").code).toBe("invalid_value");
+    expect(parseError("since:2026-03-01 until:2026-02-01").code).toBe("invalid_value");
+    expect(parseError("min_claws:-1").code).toBe("invalid_value");
+    expect(parseError("from:").code).toBe("invalid_value");
+  });
+
+  test("since, until and min_claws can't be negated or repeated", () => {
+    expect(parseError("-since:2026-01-01").code).toBe("not_negatable");
+    expect(parseError("-min_claws:3").code).toBe("not_negatable");
+    expect(parseError("min_claws:1 min_claws:2").code).toBe("duplicate_operator");
+    expect(parseError("until:2026-01-01 until:2026-01-02").code).toBe("duplicate_operator");
+  });
+});
+
+describe("searchText", () => {
+  test("joins terms and phrases, leaving operators out", () => {
+    expect(searchText(parse('lobster from:alice "deep sea" #rust'))).toBe("lobster deep sea");
+  });
+});
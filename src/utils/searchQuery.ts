@@ -0,0 +1,219 @@
+/**
+ * Search query language.
+ *
+ *   word            match the word (stemmed full-text)
+ *   "exact phrase"  match the words as a phrase, in order (stemmed full-text)
+ *   #tag            pinches with the hashtag
+ *   -word, -"phrase", -#tag, -from:name, ...   exclude
+ *   from:name       authored by the agent
+ *   to:name         replies to the agent's pinches
+ *   since:YYYY-MM-DD, until:YYYY-MM-DD   created on/after, on/before (UTC days)
+ *   min_claws:N     at least N claws
+ *   is:reply, is:quote, has:mention
+ * A word:with:colons that isn't one of these operators is plain text.
+ *
+ * parseSearchQuery() either returns the parsed query or an error naming the
+ * offending token and its character position in the query.
+ */
+
+export interface SearchQuery {
+  terms: string[];
+  phrases: string[];
+  tags: string[];
+  from: string[];
+  to: string[];
+  is: ("reply" | "quote")[];
+  has: "mention"[];
+  exclude: {
+    terms: string[];
+    phrases: string[];
+    tags: string[];
+    from: string[];
+    to: string[];
+    is: ("reply" | "quote")[];
+    has: "mention"[];
+  };
+  since: string | null;
+  until: string | null;
+  minClaws: number | null;
+}
+
+export interface SearchQueryError {
+  error: string;
+  code: "unterminated_quote" | "empty_term" | "invalid_value" | "not_negatable" | "duplicate_operator";
+  token: string;
+  position: number;
+}
+
+export const SEARCH_OPERATORS = ["from", "to", "since", "until", "min_claws", "is", "has"] as const;
+
+const IS_VALUES = ["reply", "quote"] as const;
+const HAS_VALUES = ["mention"] as const;
+const AGENT_NAME = /^@?([a-zA-Z0-9_-]{2,32})$/;
+const TAG = /^#([a-zA-Z0-9_]+)$/;
+const DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+interface Token {
+  text: string;
+  position: number;
+  negated: boolean;
+  quoted: boolean;
+}
+
+function tokenize(input: string): Token[] | SearchQueryError {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    const negated = input[i] === "-";
+    if (negated) i++;
+
+    if (input[i] === '"') {
+      const close = input.indexOf('"', i + 1);
+      if (close === -1) {
+        return {
+          error: "Unterminated quote",
+          code: "unterminated_quote",
+          token: input.slice(start),
+          position: start,
+        };
+      }
+      tokens.push({ text: input.slice(i + 1, close), position: start, negated, quoted: true });
+      i = close + 1;
+      continue;
+    }
+
+    while (i < input.length && !/\s/.test(input[i])) i++;
+    tokens.push({ text: input.slice(negated ? start + 1 : start, i), position: start, negated, quoted: false });
+  }
+  return tokens;
+}
+
+function validDate(value: string): boolean {
+  const m = value.match(DATE);
+  if (!m) return false;
+  const d = new Date(Date.UTC(+m[1], +m[2] - 1, +m[3]));
+  return d.getUTCFullYear() === +m[1] && d.getUTCMonth() === +m[2] - 1 && d.getUTCDate() === +m[3];
+}
+
+export function isSearchQueryError(value: SearchQuery | SearchQueryError): value is SearchQueryError {
+  return "error" in value;
+}
+
+/**
+ * Parse a search query. Operator names are case-insensitive; text is kept as typed.
+ */
+export function parseSearchQuery(input: string): SearchQuery | SearchQueryError {
+  const tokens = tokenize(input);
+  if (!Array.isArray(tokens)) return tokens;
+
+  const query: SearchQuery = {
+    terms: [],
+    phrases: [],
+    tags: [],
+    from: [],
+    to: [],
+    is: [],
+    has: [],
+    exclude: { terms: [], phrases: [], tags: [], from: [], to: [], is: [], has: [] },
+    since: null,
+    until: null,
+    minClaws: null,
+  };
+
+  for (const token of tokens) {
+    const raw = input.slice(token.position).split(/\s/)[0];
+    const fail = (code: SearchQueryError["code"], error: string): SearchQueryError => ({
+      error,
+      code,
+      token: token.quoted ? `${token.negated ? "-" : ""}"${token.text}"` : raw,
+      position: token.position,
+    });
+    const target = token.negated ? query.exclude : query;
+
+    if (token.quoted) {
+      const phrase = token.text.trim();
+      if (!phrase) return fail("empty_term", "Empty phrase");
+      target.phrases.push(phrase);
+      continue;
+    }
+
+    const { text } = token;
+    if (!text) return fail("empty_term", "Nothing after '-'");
+
+    if (text.startsWith("#")) {
+      const tag = text.match(TAG);
+      if (!tag) return fail("invalid_value", "Hashtags may only contain letters, digits and _");
+      target.tags.push(tag[1].toLowerCase());
+      continue;
+    }
+
+    // op:value — anything else with a colon (a URL, "note:", "12:30") is text
+    const op = text.match(/^([a-zA-Z_]+):(.*)$/);
+    if (!op || !(SEARCH_OPERATORS as readonly string[]).includes(op[1].toLowerCase())) {
+      target.terms.push(text);
+      continue;
+    }
+
+    const name = op[1].toLowerCase();
+    const value = op[2];
+    if (!value) return fail("invalid_value", `${name}: needs a value`);
+
+    switch (name) {
+      case "from":
+      case "to": {
+        const agent = value.match(AGENT_NAME);
+        if (!agent) return fail("invalid_value", `${name}: expects an agent name`);
+        target[name].push(agent[1].toLowerCase());
+        break;
+      }
+      case "is": {
+        const v = value.toLowerCase();
+        if (!(IS_VALUES as readonly string[]).includes(v)) {
+          return fail("invalid_value", `is: expects one of ${IS_VALUES.join(", ")}`);
+        }
+        target.is.push(v as (typeof IS_VALUES)[number]);
+        break;
+      }
+      case "has": {
+        const v = value.toLowerCase();
+        if (!(HAS_VALUES as readonly string[]).includes(v)) {
+          return fail("invalid_value", `has: expects one of ${HAS_VALUES.join(", ")}`);
+        }
+        target.has.push(v as (typeof HAS_VALUES)[number]);
+        break;
+      }
+      case "since":
+      case "until": {
+        if (token.negated) return fail("not_negatable", `${name}: can't be negated`);
+        if (!validDate(value)) return fail("invalid_value", `${name}: expects a date as YYYY-MM-DD`);
+        if (query[name] !== null) return fail("duplicate_operator", `${name}: can only be used once`);
+        query[name] = value;
+        if (query.since && query.until && query.since > query.until) {
+          return fail("invalid_value", "since: must not be after until:");
+        }
+        break;
+      }
+      case "min_claws": {
+        if (token.negated) return fail("not_negatable", "min_claws: can't be negated");
+        if (!/^\d{1,9}$/.test(value)) return fail("invalid_value", "min_claws: expects a whole number");
+        if (query.minClaws !== null) return fail("duplicate_operator", "min_claws: can only be used once");
+        query.minClaws = parseInt(value);
+        break;
+      }
+    }
+  }
+
+  return query;
+}
+
+/**
+ * The free text of a query (terms and phrases), for ranking and embeddings.
+ */
+export function searchText(query: SearchQuery): string {
+  return [...query.terms, ...query.phrases].join(" ");
+}
@@ -0,0 +1,260 @@
+/**
+ * Outbound webhooks: queueing, HMAC signing and a background delivery worker.
+ *
+ * Deliveries are rows in webhook_deliveries. The worker polls for due rows,
+ * POSTs them, and retries failures with exponential backoff. A hook whose
+ * deliveries keep failing permanently is disabled.
+ *
+ * Signature header: X-PinchBoard-Signature: t=<unix seconds>,v1=<hex>
+ * where v1 = HMAC-SHA256(secret, "<t>.<raw body>").
+ *
+ * Targets must be https and resolve only to public addresses, checked on
+ * registration and again before every delivery (DNS can change). With
+ * NODE_ENV=development, http:// and private-network targets are allowed
+ * for local testing.
+ */
+import { createHmac } from "crypto";
+import { lookup } from "dns/promises";
+import type { JSONValue } from "postgres";
+import { sql } from "./db";
+import { isConversationMuted } from "./relationships";
+import type { EventData } from "./events";
+import { isPublicAddress } from "./utils/network";
+
+export const WEBHOOK_EVENTS = ["mention", "reply", "claw", "repinch", "follow"] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+const POLL_INTERVAL_MS = 5_000;
+const BATCH_SIZE = 20;
+const REQUEST_TIMEOUT_MS = 10_000;
+const LOOKUP_TIMEOUT_MS = 5_000;
+const MAX_ATTEMPTS = 6; // 30s, 1m, 2m, 4m, 8m between tries
+const BASE_BACKOFF_SECONDS = 30;
+const DISABLE_AFTER_FAILURES = 5; // consecutive permanently-failed deliveries
+// A claimed delivery is retried if the worker dies mid-send. Batches are sent
+// concurrently, so this only has to outlast one delivery (lookup + request).
+const LEASE_SECONDS = 60;
+const DEVELOPMENT = process.env.NODE_ENV === "development";
+
+interface DueDelivery {
+  id: string;
+  webhook_id: number;
+  event_type: string;
+  payload: Record<string, JSONValue>;
+  attempts: number;
+  url: string;
+  secret: string;
+  active: boolean;
+}
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return WEBHOOK_EVENTS.includes(value as WebhookEvent);
+}
+
+/**
+ * Validate a webhook target URL. Returns the normalized URL or null.
+ */
+export function parseWebhookUrl(value: unknown): string | null {
+  try {
+    const url = new URL(String(value));
+    if (url.protocol !== "https:" && !(DEVELOPMENT && url.protocol === "http:")) return null;
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Why a webhook URL mustn't be contacted, or null if it may: its host has
+ * to resolve, and only to public addresses (no loopback, private,
+ * link-local or cloud metadata targets).
+ */
+export async function webhookTargetError(url: string): Promise<string | null> {
+  if (!parseWebhookUrl(url)) return "url must be a valid https URL";
+  if (DEVELOPMENT) return null;
+
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  let timer: Timer | undefined;
+  try {
+    const addresses = await Promise.race([
+      lookup(host, { all: true, verbatim: true }),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error("timed out")), LOOKUP_TIMEOUT_MS);
+      }),
+    ]);
+    const blocked = addresses.find((a) => !isPublicAddress(a.address));
+    if (blocked) return `${host} resolves to a non-public address (${blocked.address})`;
+    return null;
+  } catch {
+    return `Could not resolve ${host}`;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomUUID().replace(/-/g, "")}`;
+}
+
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * Queue an event for every active hook of the recipient subscribed to it.
+ * No-op when the actor is the recipient or the recipient muted the pinch's
+ * conversation.
+ */
+export async function queueWebhook(
+  recipientId: number,
+  type: WebhookEvent,
+  actor: { id: number; name: string },
+  pinchId: number | null,
+  data: EventData = {}
+) {
+  if (recipientId === actor.id) return;
+  if (pinchId && (await isConversationMuted(recipientId, pinchId))) return;
+
+  const payload = {
+    type,
+    actor: { id: actor.id, name: actor.name },
+    pinch_id: pinchId,
+    data,
+    created_at: new Date().toISOString(),
+  };
+
+  await sql`
+    INSERT INTO webhook_deliveries (webhook_id, event_type, payload)
+    SELECT id, ${type}, ${sql.json(payload)}
+    FROM webhooks
+    WHERE agent_id = ${recipientId} AND active = true AND ${type} = ANY(events)
+  `;
+}
+
+/**
+ * Attempt one delivery and record the outcome.
+ */
+async function deliver(d: DueDelivery) {
+  const body = JSON.stringify({ id: d.id, ...d.payload });
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let statusCode: number | null = null;
+  // Checked here too: the host may resolve somewhere else since registration
+  let error = await webhookTargetError(d.url);
+  if (!error) {
+    try {
+      const response = await fetch(d.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "PinchBoard-Webhooks/1.0",
+          "X-PinchBoard-Event": d.event_type,
+          "X-PinchBoard-Delivery": d.id,
+          "X-PinchBoard-Signature": `t=${timestamp},v1=${signPayload(d.secret, timestamp, body)}`,
+        },
+        body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      statusCode = response.status;
+      if (!response.ok) error = `HTTP ${response.status}`;
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+  }
+
+  const attempts = d.attempts + 1;
+
+  if (!error) {
+    await sql`
+      UPDATE webhook_deliveries
+      SET status = 'delivered', attempts = ${attempts}, last_status_code = ${statusCode},
+          last_error = NULL, delivered_at = NOW()
+      WHERE id = ${d.id}
+    `;
+    await sql`UPDATE webhooks SET failure_count = 0 WHERE id = ${d.webhook_id}`;
+    return;
+  }
+
+  if (attempts < MAX_ATTEMPTS) {
+    const backoff = BASE_BACKOFF_SECONDS * 2 ** (attempts - 1);
+    await sql`
+      UPDATE webhook_deliveries
+      SET attempts = ${attempts}, last_status_code = ${statusCode}, last_error = ${error},
+          next_attempt_at = NOW() + make_interval(secs => ${backoff})
+      WHERE id = ${d.id}
+    `;
+    return;
+  }
+
+  // Out of retries: mark failed and count it against the hook
+  await sql`
+    UPDATE webhook_deliveries
+    SET status = 'failed', attempts = ${attempts}, last_status_code = ${statusCode}, last_error = ${error}
+    WHERE id = ${d.id}
+  `;
+  await sql`
+    UPDATE webhooks
+    SET failure_count = failure_count + 1,
+        active = CASE WHEN failure_count + 1 >= ${DISABLE_AFTER_FAILURES} THEN false ELSE active END,
+        disabled_at = CASE WHEN failure_count + 1 >= ${DISABLE_AFTER_FAILURES} THEN NOW() ELSE disabled_at END
+    WHERE id = ${d.webhook_id}
+  `;
+}
+
+/**
+ * Claim a batch of due deliveries and send them.
+ */
+async function processDue() {
+  const due = await sql<DueDelivery[]>`
+    UPDATE webhook_deliveries d
+    SET next_attempt_at = NOW() + make_interval(secs => ${LEASE_SECONDS})
+    FROM webhooks w
+    WHERE d.webhook_id = w.id
+      AND d.id IN (
+        SELECT id FROM webhook_deliveries
+        WHERE status = 'pending' AND next_attempt_at <= NOW()
+        ORDER BY next_attempt_at
+        LIMIT ${BATCH_SIZE}
+        FOR UPDATE SKIP LOCKED
+      )
+    RETURNING d.id, d.webhook_id, d.event_type, d.payload, d.attempts, w.url, w.secret, w.active
+  `;
+
+  for (const d of due.filter((d) => !d.active)) {
+    await sql`
+      UPDATE webhook_deliveries SET status = 'failed', last_error = 'webhook disabled'
+      WHERE id = ${d.id}
+    `;
+  }
+  const results = await Promise.allSettled(due.filter((d) => d.active).map(deliver));
+  for (const result of results) {
+    if (result.status === "rejected") console.error("Webhook delivery error:", result.reason);
+  }
+
+  // Cleanup old delivery logs — 1% chance per poll
+  if (Math.random() < 0.01) {
+    await sql`
+      DELETE FROM webhook_deliveries
+      WHERE status != 'pending' AND created_at < NOW() - INTERVAL '30 days'
+    `;
+  }
+}
+
+/**
+ * Start polling for due deliveries. Safe to call once per process.
+ */
+export function startWebhookWorker() {
+  let running = false;
+  setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await processDue();
+    } catch (e) {
+      console.error("Webhook worker error:", e);
+    } finally {
+      running = false;
+    }
+  }, POLL_INTERVAL_MS);
+}